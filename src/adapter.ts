@@ -1,4 +1,5 @@
 import type {
+  ColumnType,
   IsolationLevel,
   SqlDriverAdapter,
   SqlMigrationAwareDriverAdapterFactory,
@@ -9,17 +10,57 @@ import type {
   TransactionOptions,
 } from "@prisma/driver-adapter-utils";
 import { Debug, DriverAdapterError } from "@prisma/driver-adapter-utils";
-import { Mutex } from "async-mutex";
-import { Database } from "bun:sqlite";
+import { Mutex, withTimeout } from "async-mutex";
+import { Database, Statement } from "bun:sqlite";
+import { existsSync } from "fs";
 
 import { name as packageName } from '../package.json'
-import { convertDriverError } from "./errors";
+import { BackupOptions, backupDatabase, serializeDatabase } from "./backup";
+import { QueryInterrupt, QueryOptions } from "./cancellation";
+import {
+  assertCheckpointMode,
+  CheckpointMode,
+  CheckpointPolicy,
+  CheckpointResult,
+  CheckpointScheduler,
+} from "./checkpoint";
+import { convertDriverError, genericError, isInterruptedError } from "./errors";
 import { getColumnTypes, mapQueryArgs, mapRow, Row } from "./conversion";
+import { loadExtensions, SQLiteExtension } from "./extensions";
+import { OpenStreams } from "./open-streams";
+import { applyPragmas, SQLitePragmas } from "./pragmas";
+import { ReaderPool } from "./reader-pool";
+import { BusyRetryConfig, BusyRetryPolicy, BusyRetryStats } from "./retry";
+import { SchemaCache } from "./schema-cache";
+import { DatabaseSource, deserializeDatabase, readSource, writeSnapshot } from "./snapshot";
+import { StatementCache, StatementCacheStats } from "./statement-cache";
+import {
+  getFromTable,
+  getNames,
+  getReturningTable,
+  isReadOnlyQuery,
+  isSchemaChange,
+  parseTransactionControl,
+  quoteIdentifier,
+  splitStatements,
+  SqlStatement,
+  TableName,
+  TransactionControl,
+} from "./statements";
+import { DatabaseLocation, parseDatabaseUrl } from "./url";
+import { PrismaBunSQLiteWorkerAdapter } from "./worker-adapter";
 
 const debug = Debug("prisma:driver-adapter:bun-sqlite");
 type StdClient = Database
 const LOCK_TAG = Symbol();
 
+const DEFAULT_STREAM_BATCH_SIZE = 1000;
+
+export type QueryStreamOptions = QueryOptions & {
+  /** Maximum number of rows per batch. Defaults to 1000. */
+  batchSize?: number;
+};
+
 type BunSQLiteResultSet = {
   declaredTypes: Array<string | null>;
   columnNames: string[];
@@ -31,13 +72,23 @@ class BunSQLiteQueryable implements SqlQueryable {
   readonly provider = "sqlite";
   readonly adapterName = packageName;
 
-  constructor(protected readonly db: Database) { }
+  constructor(
+    protected readonly db: Database,
+    protected readonly statements: StatementCache,
+    protected readonly schema: SchemaCache,
+    protected readonly streams: OpenStreams,
+    protected readonly queryTimeout: number | undefined,
+  ) { }
 
-  async queryRaw(query: SqlQuery): Promise<SqlResultSet> {
+  /**
+   * `options` can interrupt the query after a timeout or, in worker mode,
+   * through an `AbortSignal`, it then fails with SQLITE_INTERRUPT.
+   */
+  async queryRaw(query: SqlQuery, options?: QueryOptions): Promise<SqlResultSet> {
     const tag = "[js::queryRaw]";
     debug(`${tag} %O`, query);
 
-    const { columnNames, declaredTypes, values } = await this.performIO(query);
+    const { columnNames, declaredTypes, values } = await this.performIO(query, QueryInterrupt.from(options, this.queryTimeout));
     const rows = values as Array<Row>;
 
     const columnTypes = getColumnTypes(declaredTypes, rows);
@@ -49,93 +100,210 @@ class BunSQLiteQueryable implements SqlQueryable {
     };
   }
 
-  async executeRaw(query: SqlQuery): Promise<number> {
+  /**
+   * Streams the rows of a query in batches instead of loading the whole
+   * result at once. Every batch has the same column types; columns without a
+   * declared type are inferred from the first batch. The statement stays open
+   * until the stream ends, so finish it or break out of the loop.
+   */
+  async *queryStream(query: SqlQuery, options: QueryStreamOptions = {}): AsyncGenerator<SqlResultSet, void, undefined> {
+    const tag = "[js::queryStream]";
+    debug(`${tag} %O`, query);
+
+    const { batchSize = DEFAULT_STREAM_BATCH_SIZE } = options;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw genericError(`Stream batch size must be a positive integer, got ${batchSize}`);
+    }
+    const interrupt = QueryInterrupt.from(options, this.queryTimeout);
+    interrupt?.check();
+    const args = mapQueryArgs(query.args, query.argTypes);
+    this.streams.assertOpen();
+
+    let stmt: Statement;
+    try {
+      // Kept out of the statement cache, the stream owns the statement until it ends
+      stmt = this.db.prepare(query.sql);
+    } catch (e) {
+      this.onError(e);
+    }
+    this.streams.add(stmt);
+
+    const columnNames = stmt.columnNames;
+    // Interrupting a write halfway would leave its outcome unclear, only queries are stepped
+    const rows = this.iterateValues(stmt, args, isReadOnlyQuery(query.sql) ? interrupt : null);
+    try {
+      let columnTypes: ColumnType[] | null = null;
+
+      while (true) {
+        // The connection may have been closed while the consumer held the stream
+        this.streams.assertOpen();
+        const batch: Row[] = [];
+        try {
+          while (batch.length < batchSize) {
+            const next = rows.next();
+            if (next.done) {
+              break;
+            }
+            batch.push(next.value as Row);
+          }
+        } catch (e) {
+          this.onError(e);
+        }
+        if (batch.length === 0) {
+          break;
+        }
+
+        if (columnTypes === null) {
+          const declaredTypes = await this.getDeclaredTypes(this.readDeclaredTypes(stmt), query.sql, columnNames);
+          columnTypes = getColumnTypes(declaredTypes, batch);
+        }
+        const types = columnTypes;
+        yield {
+          columnNames,
+          columnTypes: types,
+          rows: batch.map((row) => mapRow(row, types)),
+        };
+      }
+    } finally {
+      this.streams.delete(stmt);
+      rows.return(undefined);
+      stmt.finalize();
+      if (isSchemaChange(query.sql)) {
+        this.schema.invalidate();
+      }
+    }
+  }
+
+  /**
+   * Writes run to completion once started, `options` can only interrupt them
+   * before that.
+   */
+  async executeRaw(query: SqlQuery, options?: QueryOptions): Promise<number> {
     const tag = "[js::executeRaw]";
     debug(`${tag} %O`, query);
+    QueryInterrupt.from(options, this.queryTimeout)?.check();
     return (await this.executeIO(query)).changes;
   }
 
   private async executeIO(query: SqlQuery): Promise<{ changes: number }> {
     try {
       // Check if this is a multi-statement script
-      const statements = query.sql.split(';').filter(s => s.trim()).filter(s => !s.startsWith('--'));
+      const statements = splitStatements(query.sql);
       if (statements.length > 1) {
         debug("Executing multi-statement script by splitting into individual statements");
         // For multi-statement scripts, execute each statement individually
         if (query.args && query.args.length > 0) {
           throw new Error("Multi-statement scripts with parameters are not supported");
         }
-        
-        let totalChanges = 0;
-        for (const statement of statements) {
-          const trimmed = statement.trim();
-          if (trimmed) {
-            try {
-              const stmt = this.db.query(trimmed);
-              const result = stmt.run();
-              totalChanges += result.changes;
-            } catch (stmtError) {
-              debug("Statement failed: %s, Error: %O", trimmed.substring(0, 50), stmtError);
-              throw stmtError;
-            }
-          }
-        }
-        return Promise.resolve({ changes: totalChanges });
+
+        return Promise.resolve({ changes: this.runStatements(statements) });
       }
-      
+
       // Single statement
-      const stmt = this.db.query(query.sql);
       const args = mapQueryArgs(query.args, query.argTypes);
-      const result = stmt.run(...(args as any));
+      const result = this.statements.use(query.sql, (stmt) => stmt.run(...(args as any)));
+      if (isSchemaChange(query.sql)) {
+        this.schema.invalidate();
+      }
       return Promise.resolve({ changes: result.changes });
     } catch (e) {
       this.onError(e);
     }
   }
 
-  private getTableFromQuery(sql: string): string | null {
-    // Simple regex to extract table name from SELECT queries
-    // This handles common cases like SELECT ... FROM table, SELECT ... FROM "table", etc.
-    const match = sql.match(/\bFROM\s+(?:`([^`]+)`|"([^"]+)"|(\w+))/i);
-    return match ? (match[1] || match[2] || match[3]) : null;
+  protected runStatements(statements: SqlStatement[]): number {
+    let totalChanges = 0;
+    try {
+      for (let i = 0; i < statements.length; i++) {
+        const { sql, start } = statements[i];
+        try {
+          debug("Executing statement %d at offset %d: %s", i + 1, start, sql.substring(0, 50));
+          // Script statements are one-off, keep them out of the statement cache
+          totalChanges += this.db.run(sql).changes;
+        } catch (stmtError) {
+          debug("Statement %d at offset %d failed: %s, Error: %O", i + 1, start, sql.substring(0, 100), stmtError);
+          throw stmtError;
+        }
+      }
+    } finally {
+      // Scripts are how migrations arrive, drop cached schema even if one failed halfway
+      this.schema.invalidate();
+    }
+    return totalChanges;
   }
 
-  private async getColumnTypes(tableName: string, columnNames: string[]): Promise<Array<string | null>> {
+  private readDeclaredTypes(stmt: Statement): Array<string | null> | null {
     try {
-      const tableInfoStmt = this.db.query(`PRAGMA table_info(${tableName})`);
-      const tableInfo = tableInfoStmt.all() as Array<{
-        cid: number;
-        name: string;
-        type: string;
-        notnull: number;
-        dflt_value: string | null;
-        pk: number;
-      }>;
-
-      // Create a map of column names to types
-      const typeMap = new Map<string, string>();
-      tableInfo.forEach(col => {
-        typeMap.set(col.name, col.type);
-      });
+      if (Array.isArray(stmt.declaredTypes)) {
+        return stmt.declaredTypes;
+      }
+    } catch (e) {
+      debug("Statement declared types unavailable: %O", e);
+    }
+    return null;
+  }
+
+  private async getDeclaredTypes(
+    declaredTypes: Array<string | null> | null,
+    sql: string,
+    columnNames: string[],
+  ): Promise<Array<string | null>> {
+    // Prefer the declared types SQLite resolved for the statement itself, which
+    // follow columns through joins, aliases, subqueries, CTEs, UNIONs and views.
+    // Expression columns have no declared type and are inferred from values.
+    if (declaredTypes !== null && declaredTypes.every((type) => type !== null)) {
+      return declaredTypes;
+    }
+
+    // RETURNING columns have no declared type on older SQLite builds, resolve
+    // them against the table the INSERT/UPDATE/DELETE writes to. Bun versions
+    // without statement metadata fall back to the first table in FROM.
+    const table = getReturningTable(sql) ?? (declaredTypes === null ? getFromTable(sql) : null);
+    if (!table) {
+      return declaredTypes ?? columnNames.map(() => null);
+    }
+
+    const tableTypes = await this.getColumnTypes(table, columnNames);
+    return tableTypes.map((type, i) => declaredTypes?.[i] ?? type);
+  }
+
+  private async getColumnTypes(table: TableName, columnNames: string[]): Promise<Array<string | null>> {
+    try {
+      const typeMap = this.schema.getColumnTypes(table.name, table.schema);
 
       // Return types in the same order as columnNames
       return columnNames.map(name => typeMap.get(name) || null);
     } catch (e) {
-      debug("Failed to get column types for table %s: %O", tableName, e);
+      debug("Failed to get column types for table %s: %O", table.name, e);
       // Fall back to null types if we can't get schema info
       return columnNames.map(() => null);
     }
   }
 
-  private async performIO(query: SqlQuery): Promise<BunSQLiteResultSet> {
+  private async performIO(query: SqlQuery, interrupt: QueryInterrupt | null): Promise<BunSQLiteResultSet> {
+    interrupt?.check();
     try {
-      const stmt = this.db.query(query.sql);
       const args = mapQueryArgs(query.args, query.argTypes);
 
-      const columns = stmt.columnNames;
+      const { columns, values, statementTypes } = this.statements.use(query.sql, (stmt) => {
+        const columns = stmt.columnNames;
+        if (columns.length === 0) {
+          stmt.run(...(args as any));
+          return { columns, values: [], statementTypes: [] };
+        }
+
+        // Interrupting a write halfway would leave its outcome unclear, only queries are stepped
+        const values = interrupt !== null && isReadOnlyQuery(query.sql)
+          ? Array.from(this.iterateValues(stmt, args, interrupt))
+          : stmt.values(...(args as any)) as unknown[][];
+        // Names are read again after running, SQLite re-prepares the statement when another connection changed the schema
+        return { columns: stmt.columnNames, values, statementTypes: this.readDeclaredTypes(stmt) };
+      });
 
       if (columns.length === 0) {
-        stmt.run(...(args as any));
+        if (isSchemaChange(query.sql)) {
+          this.schema.invalidate();
+        }
         return Promise.resolve({
           columnNames: [],
           declaredTypes: [],
@@ -143,19 +311,12 @@ class BunSQLiteQueryable implements SqlQueryable {
         });
       }
 
-      // Try to get proper column types from table schema
-      let declaredTypes: Array<string | null>;
-      const tableName = this.getTableFromQuery(query.sql);
-      if (tableName) {
-        declaredTypes = await this.getColumnTypes(tableName, columns);
-      } else {
-        declaredTypes = columns.map((col: any) => null);
-      }
+      const declaredTypes = await this.getDeclaredTypes(statementTypes, query.sql, columns);
 
       const resultSet = {
         declaredTypes,
         columnNames: columns,
-        values: stmt.values(...(args as any)) as unknown[][],
+        values,
       };
 
       return Promise.resolve(resultSet);
@@ -164,75 +325,264 @@ class BunSQLiteQueryable implements SqlQueryable {
     }
   }
 
+  // Steps through the rows one by one, checking the interrupt whenever another
+  // row follows. A query that produced its last row has finished and succeeds.
+  private *iterateValues(stmt: Statement, args: unknown[], interrupt: QueryInterrupt | null): Generator<unknown[]> {
+    const columns = stmt.columnNames;
+    // Rows come back as objects, columns sharing a name would collapse
+    if (new Set(columns).size !== columns.length) {
+      debug("Duplicate column names, reading all rows at once");
+      yield* stmt.values(...(args as any)) as unknown[][];
+      return;
+    }
+
+    let previous: unknown[] | null = null;
+    for (const row of stmt.iterate(...(args as any)) as Iterable<Record<string, unknown>>) {
+      if (previous !== null) {
+        interrupt?.check();
+        yield previous;
+      }
+      previous = columns.map((column) => row[column]);
+    }
+    if (previous !== null) {
+      yield previous;
+    }
+  }
+
   protected onError(error: any): never {
     debug("Error in query execution: %O", error);
     throw new DriverAdapterError(convertDriverError(error));
   }
 }
 
+type TransactionState = 'active' | 'committed' | 'rolled_back';
+
+/**
+ * How `BEGIN` acquires locks. `DEFERRED` takes the write lock on the first
+ * write, which can fail with SQLITE_BUSY halfway through a transaction when
+ * another connection wrote in between. `IMMEDIATE` and `EXCLUSIVE` take it
+ * up front, so contention surfaces at `BEGIN` instead.
+ */
+export type TransactionMode = 'DEFERRED' | 'IMMEDIATE' | 'EXCLUSIVE';
+
+const TRANSACTION_MODES: readonly TransactionMode[] = ['DEFERRED', 'IMMEDIATE', 'EXCLUSIVE'];
+
+export type BunSQLiteTransactionOptions = TransactionOptions & {
+  mode: TransactionMode;
+  /** Milliseconds after which the transaction is rolled back and its lock released. */
+  timeout?: number;
+};
+
+function disposedError(): DriverAdapterError {
+  return genericError("Adapter has been disposed");
+}
+
+function assertTransactionMode(mode: string): asserts mode is TransactionMode {
+  if (!TRANSACTION_MODES.includes(mode as TransactionMode)) {
+    throw genericError(`Invalid transaction mode: ${mode}. Expected one of ${TRANSACTION_MODES.join(', ')}`);
+  }
+}
+
+/**
+ * A transaction that can open nested transactions backed by SQLite savepoints.
+ */
+export interface NestableTransaction extends Transaction {
+  /**
+   * Opens a savepoint inside this transaction. Committing the returned
+   * transaction releases the savepoint, rolling it back undoes only the work
+   * done since it was opened. The outermost transaction keeps holding the
+   * adapter lock, so nesting never waits on it.
+   */
+  startNestedTransaction(): Promise<NestableTransaction>;
+  queryRaw(query: SqlQuery, options?: QueryOptions): Promise<SqlResultSet>;
+  executeRaw(query: SqlQuery, options?: QueryOptions): Promise<number>;
+  queryStream(query: SqlQuery, options?: QueryStreamOptions): AsyncGenerator<SqlResultSet, void, undefined>;
+}
+
+/**
+ * The adapter `connect()` returns, running in-process or on a worker thread.
+ * Statistics come back directly in-process and as promises in worker mode.
+ */
+export interface BunSQLiteDriverAdapter extends SqlDriverAdapter {
+  queryRaw(query: SqlQuery, options?: QueryOptions): Promise<SqlResultSet>;
+  executeRaw(query: SqlQuery, options?: QueryOptions): Promise<number>;
+  /**
+   * Starts a transaction. `mode` and `timeout` override the adapter's
+   * defaults for this transaction only.
+   */
+  startTransaction(
+    isolationLevel?: IsolationLevel,
+    options?: { mode?: TransactionMode; timeout?: number },
+  ): Promise<NestableTransaction>;
+  /**
+   * Streams the rows of a query in batches. Plain queries read from the
+   * reader pool when there is one, others hold the lock until the stream ends.
+   */
+  queryStream(query: SqlQuery, options?: QueryStreamOptions): AsyncGenerator<SqlResultSet, void, undefined>;
+  /**
+   * Returns hit, miss and eviction counters of the prepared statement caches,
+   * summed over all connections.
+   */
+  getStatementCacheStats(): StatementCacheStats | Promise<StatementCacheStats>;
+  /**
+   * Returns how often operations were retried after SQLITE_BUSY.
+   */
+  getBusyRetryStats(): BusyRetryStats | Promise<BusyRetryStats>;
+  /**
+   * Runs `PRAGMA wal_checkpoint` once no transaction is open.
+   */
+  checkpoint(mode?: CheckpointMode): Promise<CheckpointResult>;
+  /**
+   * Checkpoints in the background according to `policy` until disposed,
+   * replacing any policy scheduled before.
+   */
+  scheduleCheckpoints(policy: CheckpointPolicy): void | Promise<void>;
+  /**
+   * Writes a copy of the database to `targetPath` with VACUUM INTO. The copy
+   * only contains committed transactions.
+   */
+  backup(targetPath: string, options?: BackupOptions): Promise<void>;
+  /**
+   * Returns the committed state of a database as the bytes of a database file.
+   */
+  serialize(schema?: string): Promise<Uint8Array>;
+}
+
+type SavepointFrame = {
+  name: string;
+  // null for savepoints opened with a raw SAVEPOINT statement
+  transaction: BunSQLiteSavepoint | null;
+};
+
+function assertActive(state: TransactionState, cause = "Cannot execute query on a closed transaction."): void {
+  if (state !== 'active') {
+    throw new DriverAdapterError({
+      kind: "TransactionAlreadyClosed",
+      cause,
+    });
+  }
+}
+
 // Transaction wrapper
-class BunSQLiteTransaction extends BunSQLiteQueryable implements Transaction {
-  private _state: 'active' | 'committed' | 'rolled_back' = 'active';
+class BunSQLiteTransaction extends BunSQLiteQueryable implements NestableTransaction {
+  private _state: TransactionState = 'active';
+  // Set when the transaction was rolled back on its own, after a timeout or an interrupted statement
+  private abortedCause: string | undefined;
+  private readonly expiryTimer: ReturnType<typeof setTimeout> | undefined;
+  // Open savepoints, innermost last
+  private readonly savepoints: SavepointFrame[] = [];
+  private savepointCounter = 0;
 
   constructor(
     db: Database,
-    readonly options: TransactionOptions,
+    statements: StatementCache,
+    schema: SchemaCache,
+    streams: OpenStreams,
+    queryTimeout: number | undefined,
+    readonly options: BunSQLiteTransactionOptions,
     readonly unlockParent: () => void,
+    private readonly retry: BusyRetryPolicy,
   ) {
-    super(db);
+    super(db, statements, schema, streams, queryTimeout);
+    if (options.timeout !== undefined) {
+      this.expiryTimer = setTimeout(
+        () => this.abort(`Transaction was rolled back after exceeding its ${options.timeout}ms timeout.`),
+        options.timeout,
+      );
+      // An abandoned transaction must not keep the process alive
+      this.expiryTimer.unref?.();
+    }
   }
 
-  async queryRaw(query: SqlQuery): Promise<SqlResultSet> {
-    if (this._state !== 'active') {
-      throw new DriverAdapterError({
-        kind: "TransactionAlreadyClosed",
-        cause: "Cannot execute query on a closed transaction.",
-      });
+  async queryRaw(query: SqlQuery, options?: QueryOptions): Promise<SqlResultSet> {
+    assertActive(this._state, this.abortedCause);
+    try {
+      return await super.queryRaw(query, options);
+    } catch (e) {
+      this.abortOnInterrupt(e);
+      throw e;
     }
-    return super.queryRaw(query);
   }
 
-  async executeRaw(query: SqlQuery): Promise<number> {
-    if (this._state !== 'active') {
-      throw new DriverAdapterError({
-        kind: "TransactionAlreadyClosed",
-        cause: "Cannot execute query on a closed transaction.",
-      });
+  async *queryStream(query: SqlQuery, options?: QueryStreamOptions): AsyncGenerator<SqlResultSet, void, undefined> {
+    assertActive(this._state, this.abortedCause);
+    try {
+      for await (const batch of super.queryStream(query, options)) {
+        yield batch;
+        // The transaction may have ended while the consumer handled the batch
+        assertActive(this._state, this.abortedCause);
+      }
+    } catch (e) {
+      this.abortOnInterrupt(e);
+      throw e;
     }
+  }
+
+  async executeRaw(query: SqlQuery, options?: QueryOptions): Promise<number> {
+    assertActive(this._state, this.abortedCause);
 
     // Handle COMMIT/ROLLBACK statements specially to avoid double execution
-    const sql = query.sql.trim().toUpperCase();
-    if (sql === 'COMMIT') {
+    const control = parseTransactionControl(query.sql);
+    if (control?.kind === 'commit') {
       await this.commit();
       return 0; // Return 0 for successful commit
     }
-    if (sql === 'ROLLBACK') {
+    if (control?.kind === 'rollback') {
       await this.rollback();
       return 0; // Return 0 for successful rollback
     }
 
-    return super.executeRaw(query);
+    let changes: number;
+    try {
+      changes = await super.executeRaw(query, options);
+    } catch (e) {
+      this.abortOnInterrupt(e);
+      throw e;
+    }
+    this.trackSavepoint(control);
+    return changes;
+  }
+
+  startNestedTransaction(): Promise<NestableTransaction> {
+    assertActive(this._state, this.abortedCause);
+    return Promise.resolve(this.openSavepoint());
   }
 
-  commit(): Promise<void> {
+  async commit(): Promise<void> {
     debug(`[js::commit]`);
+    if (this.abortedCause !== undefined) {
+      // The work was rolled back, reporting a successful commit would lose it silently
+      throw new DriverAdapterError({
+        kind: "TransactionAlreadyClosed",
+        cause: this.abortedCause,
+      });
+    }
     if (this._state !== 'active') {
       debug(`[js::commit] Transaction already closed (state: ${this._state}), ignoring commit`);
-      return Promise.resolve();
+      return;
     }
 
+    clearTimeout(this.expiryTimer);
     try {
-      // Execute COMMIT directly on database
-      this.db.query("COMMIT").run();
+      // A busy COMMIT leaves the transaction open, so it can simply be repeated,
+      // unless a timeout or dispose rolled it back in the meantime
+      await this.retry.run("COMMIT", () => {
+        assertActive(this._state, this.abortedCause);
+        this.db.run("COMMIT");
+      });
       this._state = 'committed';
     } catch (e) {
+      if (this.abortedCause !== undefined) {
+        throw e;
+      }
       this._state = 'rolled_back';
       debug("Error in commit: %O", e);
+      this.rollbackFailedCommit();
       throw new DriverAdapterError(convertDriverError(e));
     } finally {
+      this.closeSavepoints(0, this._state);
       this.unlockParent();
     }
-    return Promise.resolve();
   }
 
   rollback(): Promise<void> {
@@ -242,38 +592,387 @@ class BunSQLiteTransaction extends BunSQLiteQueryable implements Transaction {
       return Promise.resolve();
     }
 
+    clearTimeout(this.expiryTimer);
     try {
       // Execute ROLLBACK directly on database
-      this.db.query("ROLLBACK").run();
+      this.db.run("ROLLBACK");
       this._state = 'rolled_back';
     } catch (e) {
       this._state = 'rolled_back';
       debug("Error in rollback: %O", e);
       throw new DriverAdapterError(convertDriverError(e));
     } finally {
+      this.closeSavepoints(0, 'rolled_back');
       this.unlockParent();
     }
     return Promise.resolve();
   }
+
+  private rollbackFailedCommit(): void {
+    // The lock is released next, don't leave the connection inside the transaction
+    if (!this.db.inTransaction) {
+      return;
+    }
+    try {
+      this.db.run("ROLLBACK");
+    } catch (e) {
+      debug("Error rolling back after failed commit: %O", e);
+    }
+  }
+
+  /**
+   * Rolls the whole transaction back when one of its statements was
+   * interrupted, like SQLite does for interrupted writes. Partial work of a
+   * stopped statement is never committed.
+   */
+  abortOnInterrupt(error: unknown): void {
+    if (isInterruptedError(error)) {
+      this.abort("Transaction was rolled back because a statement was interrupted.");
+    }
+  }
+
+  abort(cause: string): void {
+    if (this._state !== 'active') {
+      return;
+    }
+
+    debug(`[js::abort] %s`, cause);
+    clearTimeout(this.expiryTimer);
+    this.abortedCause = cause;
+    try {
+      this.db.run("ROLLBACK");
+    } catch (e) {
+      debug("Error in abort rollback: %O", e);
+    } finally {
+      this._state = 'rolled_back';
+      this.closeSavepoints(0, 'rolled_back', this.abortedCause);
+      this.unlockParent();
+    }
+  }
+
+  openSavepoint(): BunSQLiteSavepoint {
+    const name = `prisma_savepoint_${++this.savepointCounter}`;
+    debug(`[js::startNestedTransaction] %s`, name);
+    try {
+      this.db.run(`SAVEPOINT ${name}`);
+    } catch (e) {
+      debug("Error in savepoint: %O", e);
+      throw new DriverAdapterError(convertDriverError(e));
+    }
+
+    const savepoint = new BunSQLiteSavepoint(this.db, this.statements, this.schema, this.streams, this.queryTimeout, this, name);
+    this.savepoints.push({ name, transaction: savepoint });
+    return savepoint;
+  }
+
+  releaseSavepoint(name: string): void {
+    try {
+      this.db.run(`RELEASE SAVEPOINT ${name}`);
+    } catch (e) {
+      debug("Error in release savepoint: %O", e);
+      throw new DriverAdapterError(convertDriverError(e));
+    }
+    this.trackSavepoint({ kind: 'release', name });
+  }
+
+  rollbackSavepoint(name: string): void {
+    try {
+      // ROLLBACK TO keeps the savepoint open, release it to end the nested transaction
+      this.db.run(`ROLLBACK TO SAVEPOINT ${name}`);
+      this.db.run(`RELEASE SAVEPOINT ${name}`);
+    } catch (e) {
+      debug("Error in rollback to savepoint: %O", e);
+      throw new DriverAdapterError(convertDriverError(e));
+    } finally {
+      const index = this.findSavepoint(name);
+      if (index !== -1) {
+        this.closeSavepoints(index, 'rolled_back');
+      }
+    }
+  }
+
+  /**
+   * Mirrors SAVEPOINT, RELEASE and ROLLBACK TO statements that already ran
+   * successfully on the savepoint stack.
+   */
+  trackSavepoint(control: TransactionControl | null): void {
+    if (control?.kind === 'savepoint') {
+      this.savepoints.push({ name: control.name, transaction: null });
+    } else if (control?.kind === 'release') {
+      // Releasing a savepoint also releases every savepoint opened after it
+      const index = this.findSavepoint(control.name);
+      if (index !== -1) {
+        this.closeSavepoints(index, 'committed');
+      }
+    } else if (control?.kind === 'rollbackTo') {
+      // The target savepoint stays open, only the ones opened after it end
+      const index = this.findSavepoint(control.name);
+      if (index !== -1) {
+        this.closeSavepoints(index + 1, 'rolled_back');
+      }
+    }
+  }
+
+  private findSavepoint(name: string): number {
+    // Savepoint names are case-insensitive, the innermost one wins
+    for (let i = this.savepoints.length - 1; i >= 0; i--) {
+      if (this.savepoints[i].name.toLowerCase() === name.toLowerCase()) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private closeSavepoints(from: number, state: TransactionState, cause?: string): void {
+    for (const frame of this.savepoints.splice(from)) {
+      frame.transaction?.close(state, cause);
+    }
+  }
+}
+
+// Nested transaction backed by a savepoint of the enclosing transaction
+class BunSQLiteSavepoint extends BunSQLiteQueryable implements NestableTransaction {
+  private _state: TransactionState = 'active';
+  private closedCause: string | undefined;
+
+  constructor(
+    db: Database,
+    statements: StatementCache,
+    schema: SchemaCache,
+    streams: OpenStreams,
+    queryTimeout: number | undefined,
+    private readonly root: BunSQLiteTransaction,
+    readonly name: string,
+  ) {
+    super(db, statements, schema, streams, queryTimeout);
+  }
+
+  get options(): BunSQLiteTransactionOptions {
+    return this.root.options;
+  }
+
+  async queryRaw(query: SqlQuery, options?: QueryOptions): Promise<SqlResultSet> {
+    assertActive(this._state, this.closedCause);
+    try {
+      return await super.queryRaw(query, options);
+    } catch (e) {
+      this.root.abortOnInterrupt(e);
+      throw e;
+    }
+  }
+
+  async *queryStream(query: SqlQuery, options?: QueryStreamOptions): AsyncGenerator<SqlResultSet, void, undefined> {
+    assertActive(this._state, this.closedCause);
+    try {
+      for await (const batch of super.queryStream(query, options)) {
+        yield batch;
+        assertActive(this._state, this.closedCause);
+      }
+    } catch (e) {
+      this.root.abortOnInterrupt(e);
+      throw e;
+    }
+  }
+
+  async executeRaw(query: SqlQuery, options?: QueryOptions): Promise<number> {
+    assertActive(this._state, this.closedCause);
+
+    const control = parseTransactionControl(query.sql);
+    if (control?.kind === 'commit') {
+      await this.commit();
+      return 0;
+    }
+    if (control?.kind === 'rollback') {
+      await this.rollback();
+      return 0;
+    }
+
+    let changes: number;
+    try {
+      changes = await super.executeRaw(query, options);
+    } catch (e) {
+      this.root.abortOnInterrupt(e);
+      throw e;
+    }
+    this.root.trackSavepoint(control);
+    return changes;
+  }
+
+  startNestedTransaction(): Promise<NestableTransaction> {
+    assertActive(this._state, this.closedCause);
+    return Promise.resolve(this.root.openSavepoint());
+  }
+
+  commit(): Promise<void> {
+    debug(`[js::commit] savepoint %s`, this.name);
+    if (this.closedCause !== undefined) {
+      // The outer transaction was rolled back and took this work with it
+      return Promise.reject(new DriverAdapterError({
+        kind: "TransactionAlreadyClosed",
+        cause: this.closedCause,
+      }));
+    }
+    if (this._state !== 'active') {
+      debug(`[js::commit] Savepoint already closed (state: ${this._state}), ignoring commit`);
+      return Promise.resolve();
+    }
+    this.root.releaseSavepoint(this.name);
+    return Promise.resolve();
+  }
+
+  rollback(): Promise<void> {
+    debug(`[js::rollback] savepoint %s`, this.name);
+    if (this._state !== 'active') {
+      debug(`[js::rollback] Savepoint already closed (state: ${this._state}), ignoring rollback`);
+      return Promise.resolve();
+    }
+    this.root.rollbackSavepoint(this.name);
+    return Promise.resolve();
+  }
+
+  close(state: TransactionState, cause?: string): void {
+    this._state = state;
+    this.closedCause = cause;
+  }
+}
+
+// Read-only connection of the reader pool
+class BunSQLiteReader extends BunSQLiteQueryable {
+  constructor(db: Database, options: BunSQLiteAdapterOptions) {
+    applyPragmas(db, options.pragmas, true);
+    const statements = new StatementCache(db, options.statementCacheSize);
+    super(db, statements, new SchemaCache(statements), new OpenStreams(), options.queryTimeout);
+  }
+
+  snapshot<T>(fn: (db: Database) => T): T {
+    return fn(this.db);
+  }
+
+  getStatementCacheStats(): StatementCacheStats {
+    return this.statements.stats();
+  }
+
+  close(): void {
+    this.streams.close(disposedError());
+    this.schema.invalidate();
+    this.db.close();
+  }
 }
 
 // Primary adapter
 export class PrismaBunSQLiteAdapter
   extends BunSQLiteQueryable
-  implements SqlDriverAdapter {
+  implements BunSQLiteDriverAdapter {
   [LOCK_TAG] = new Mutex();
+  private readonly transactionMode: TransactionMode;
+  private readonly transactionTimeout: number | undefined;
+  private readonly transactionAcquireTimeout: number | undefined;
+  private readonly retry: BusyRetryPolicy;
+  private readonly readers: ReaderPool<BunSQLiteReader> | null;
+  private readonly disposeTimeout: number;
+  private readonly optimizeOnDispose: boolean;
+  private readonly checkpointOnDispose: boolean;
+  private checkpoints: CheckpointScheduler | null = null;
+  // The transaction holding the lock, rolled back when dispose runs out of time
+  private transaction: BunSQLiteTransaction | null = null;
+  private disposed: Promise<void> | null = null;
+  private closed = false;
 
-  constructor(db: Database) {
-    super(db);
-    // Enable foreign key constraints
+  /**
+   * `readers` are read-only connections to the same WAL database that serve
+   * standalone queries, so reads don't queue behind writes and transactions.
+   */
+  constructor(db: Database, options: BunSQLiteAdapterOptions = {}, readers: Database[] = []) {
+    applyPragmas(db, options.pragmas);
+    const statements = new StatementCache(db, options.statementCacheSize);
+    super(db, statements, new SchemaCache(statements), new OpenStreams(), options.queryTimeout);
+    this.retry = new BusyRetryPolicy(options.busyRetry);
+    this.readers = readers.length > 0
+      ? new ReaderPool(readers.map((reader) => new BunSQLiteReader(reader, options)))
+      : null;
+    this.transactionMode = options.transactionMode ?? 'DEFERRED';
+    assertTransactionMode(this.transactionMode);
+    this.transactionTimeout = options.transactionTimeout;
+    this.transactionAcquireTimeout = options.transactionAcquireTimeout;
+    this.disposeTimeout = options.disposeTimeout ?? 5000;
+    this.optimizeOnDispose = options.optimizeOnDispose ?? false;
+    this.checkpointOnDispose = options.checkpointOnDispose ?? false;
+  }
+
+  // Standalone statements wait for an open transaction to finish. They share
+  // its connection, so running them earlier would make them part of it.
+  async queryRaw(query: SqlQuery, options?: QueryOptions): Promise<SqlResultSet> {
+    this.assertOpen();
+    // A WAL reader starts a new snapshot per statement, so it sees every
+    // write and commit that completed before the query was issued
+    if (this.readers !== null && this.isReaderQuery(query.sql)) {
+      return this.readers.use((reader) => this.runWithRetry("query", () => reader.queryRaw(query, options)));
+    }
+    return this.withLock(() => this.runWithRetry("query", () => super.queryRaw(query, options)));
+  }
+
+  /**
+   * Holds the lock, or a reader for plain queries, until the stream ends.
+   * Transactions and other standalone statements wait for it meanwhile.
+   */
+  async *queryStream(query: SqlQuery, options?: QueryStreamOptions): AsyncGenerator<SqlResultSet, void, undefined> {
+    this.assertOpen();
+    if (this.readers !== null && this.isReaderQuery(query.sql)) {
+      const reader = await this.readers.acquire();
+      try {
+        yield* reader.queryStream(query, options);
+      } finally {
+        this.readers.release(reader);
+      }
+      return;
+    }
+
+    const release = await this.acquireLock();
     try {
-      db.query("PRAGMA foreign_keys = ON").run();
-    } catch (e) {
-      // Ignore if pragma fails
+      yield* super.queryStream(query, options);
+    } finally {
+      release();
     }
   }
 
-  executeScript(script: string): Promise<void> {
+  // Temporary tables live on the writer only, so are queries that read them
+  private isReaderQuery(sql: string): boolean {
+    if (!isReadOnlyQuery(sql)) {
+      return false;
+    }
+    const names = getNames(sql);
+    if (names.has('temp') || names.has('sqlite_temp_master') || names.has('sqlite_temp_schema')) {
+      return false;
+    }
+    const tempTables = this.db.query<{ name: string }, []>("SELECT name FROM temp.sqlite_master").all();
+    return !tempTables.some(({ name }) => names.has(name.toLowerCase()));
+  }
+
+  async executeRaw(query: SqlQuery, options?: QueryOptions): Promise<number> {
+    this.assertOpen();
+    // Earlier statements of a script have already committed, repeating it would apply them twice
+    if (splitStatements(query.sql).length > 1) {
+      return this.withLock(() => super.executeRaw(query, options));
+    }
+    return this.withLock(() => this.runWithRetry("execute", () => super.executeRaw(query, options)));
+  }
+
+  // Dispose may close the connection while a statement waits to retry after SQLITE_BUSY
+  private runWithRetry<T>(operation: string, fn: () => T | Promise<T>): Promise<T> {
+    return this.retry.run(operation, () => {
+      if (this.closed) {
+        throw disposedError();
+      }
+      return fn();
+    });
+  }
+
+  async executeScript(script: string): Promise<void> {
+    this.assertOpen();
+    return this.withLock(() => this.runScript(script));
+  }
+
+  private runScript(script: string): Promise<void> {
     try {
       if (script.trim() === "") {
         return Promise.resolve();
@@ -282,7 +981,7 @@ export class PrismaBunSQLiteAdapter
       
       // Check if we can test database connectivity first
       try {
-        this.db.query("SELECT 1").get();
+        this.db.run("SELECT 1");
         debug("[js::executeScript] Database connectivity verified");
       } catch (dbError) {
         debug("[js::executeScript] Database connectivity issue: %O", dbError);
@@ -290,28 +989,10 @@ export class PrismaBunSQLiteAdapter
       }
       
       // Use the same logic as executeIO for consistency
-      const statements = script.split(';').filter(s => s.trim()).filter(s => !s.startsWith('--'));
-      if (statements.length > 1) {
-        debug("[js::executeScript] Multi-statement script detected (%d statements), executing individually", statements.length);
-        for (let i = 0; i < statements.length; i++) {
-          const trimmed = statements[i].trim();
-          if (trimmed) {
-            try {
-              debug("[js::executeScript] Executing statement %d: %s", i + 1, trimmed.substring(0, 50) + '...');
-              const stmt = this.db.query(trimmed);
-              stmt.run();
-            } catch (stmtError) {
-              debug("[js::executeScript] Statement %d failed: %s", i + 1, trimmed.substring(0, 100));
-              debug("[js::executeScript] Statement error: %O", stmtError);
-              throw stmtError;
-            }
-          }
-        }
-      } else {
-        // Single statement or fallback to exec
-        this.db.exec(script);
-      }
-      
+      const statements = splitStatements(script);
+      debug("[js::executeScript] Executing %d statement(s)", statements.length);
+      this.runStatements(statements);
+
       debug("[js::executeScript] Script completed successfully");
     } catch (e) {
       debug("[js::executeScript] Script failed: %O", e);
@@ -320,47 +1001,378 @@ export class PrismaBunSQLiteAdapter
     return Promise.resolve();
   }
 
+  /**
+   * Starts a transaction. `mode` and `timeout` override the adapter's
+   * defaults for this transaction only.
+   */
   async startTransaction(
     isolationLevel?: IsolationLevel,
-  ): Promise<Transaction> {
+    {
+      mode = this.transactionMode,
+      timeout = this.transactionTimeout,
+    }: { mode?: TransactionMode; timeout?: number } = {},
+  ): Promise<NestableTransaction> {
     if (isolationLevel && isolationLevel !== "SERIALIZABLE") {
       throw new DriverAdapterError({
         kind: "InvalidIsolationLevel",
         level: isolationLevel,
       });
     }
+    assertTransactionMode(mode);
+    this.assertOpen();
 
-    const options: TransactionOptions = { usePhantomQuery: false };
+    const options: BunSQLiteTransactionOptions = { usePhantomQuery: false, mode, timeout };
     debug("[js::startTransaction] options: %O", options);
 
-    const release = await this[LOCK_TAG].acquire();
+    const release = await this.acquireLock();
     try {
-      this.db.query("BEGIN").run();
-      return new BunSQLiteTransaction(this.db, options, release);
+      await this.runWithRetry("BEGIN", () => this.db.run(`BEGIN ${mode}`));
+      const unlock = () => {
+        // A transaction rolled back on its own unlocks again once its pending call fails
+        if (this.transaction === transaction) {
+          this.transaction = null;
+        }
+        release();
+      };
+      const transaction = new BunSQLiteTransaction(
+        this.db, this.statements, this.schema, this.streams, this.queryTimeout, options, unlock, this.retry,
+      );
+      this.transaction = transaction;
+      return transaction;
     } catch (e) {
       release();
       this.onError(e);
     }
   }
 
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const release = await this.acquireLock();
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  private async acquireLock(): Promise<() => void> {
+    let release: () => void;
+    if (this.transactionAcquireTimeout === undefined) {
+      release = await this[LOCK_TAG].acquire();
+    } else {
+      const timeoutError = genericError(
+        `Timed out after ${this.transactionAcquireTimeout}ms waiting for an open transaction to finish`,
+      );
+      release = await withTimeout(this[LOCK_TAG], this.transactionAcquireTimeout, timeoutError).acquire();
+    }
+    // Dispose gave up waiting and closed the database while this call was queued
+    if (this.closed) {
+      release();
+      throw disposedError();
+    }
+    return release;
+  }
+
+  private assertOpen(): void {
+    if (this.disposed !== null) {
+      throw disposedError();
+    }
+  }
+
+  /**
+   * Returns hit, miss and eviction counters of the prepared statement cache,
+   * summed over the writer and the reader connections.
+   */
+  getStatementCacheStats(): StatementCacheStats {
+    const stats = this.statements.stats();
+    for (const reader of this.readers?.connections ?? []) {
+      const { size, capacity, hits, misses, evictions } = reader.getStatementCacheStats();
+      stats.size += size;
+      stats.capacity += capacity;
+      stats.hits += hits;
+      stats.misses += misses;
+      stats.evictions += evictions;
+    }
+    return stats;
+  }
+
+  /**
+   * Returns how often operations were retried after SQLITE_BUSY.
+   */
+  getBusyRetryStats(): BusyRetryStats {
+    return this.retry.stats();
+  }
+
+  /**
+   * Runs `PRAGMA wal_checkpoint` once no transaction is open. Outside WAL
+   * mode it does nothing and reports -1 frames.
+   */
+  async checkpoint(mode: CheckpointMode = 'PASSIVE'): Promise<CheckpointResult> {
+    assertCheckpointMode(mode);
+    this.assertOpen();
+    return this.withLock(async () => {
+      try {
+        const [busy, log, checkpointed] = this.db.query(`PRAGMA wal_checkpoint(${mode})`).values()[0];
+        return { busy: Number(busy) === 1, log: Number(log), checkpointed: Number(checkpointed) };
+      } catch (e) {
+        this.onError(e);
+      }
+    });
+  }
+
+  /**
+   * Checkpoints in the background according to `policy` until disposed,
+   * replacing any policy scheduled before.
+   */
+  scheduleCheckpoints(policy: CheckpointPolicy): void {
+    this.assertOpen();
+    const scheduler = new CheckpointScheduler(policy, this.db.filename, (mode) => this.checkpoint(mode));
+    this.checkpoints?.stop();
+    this.checkpoints = scheduler;
+  }
+
+  /**
+   * Writes a copy of the database to `targetPath` with VACUUM INTO while the
+   * adapter keeps serving. The copy only contains committed transactions.
+   */
+  async backup(targetPath: string, options: BackupOptions = {}): Promise<void> {
+    this.assertOpen();
+    return this.withSnapshot(options.schema, (db) => backupDatabase(db, targetPath, options));
+  }
+
+  /**
+   * Returns the bytes of a database file holding the committed state of
+   * the database, or of the attached database `schema`.
+   */
+  async serialize(schema = 'main'): Promise<Uint8Array> {
+    this.assertOpen();
+    return this.withSnapshot(schema, (db) => serializeDatabase(db, schema));
+  }
+
+  // Readers only see committed data and copy without blocking writes. The
+  // writer waits for the lock, so an open transaction is never captured.
+  private withSnapshot<T>(schema: string | undefined, fn: (db: Database) => T): Promise<T> {
+    // Temporary tables live on the writer only
+    if (this.readers !== null && schema?.toLowerCase() !== 'temp') {
+      return this.readers.use(async (reader) => {
+        // Dispose may have closed the readers while this call waited for one
+        if (this.closed) {
+          throw disposedError();
+        }
+        return reader.snapshot(fn);
+      });
+    }
+    return this.withLock(async () => fn(this.db));
+  }
+
+  /**
+   * Waits up to `disposeTimeout` for the open transaction, open streams and
+   * queued statements, rolls back a transaction and stops streams that are
+   * still open and closes all connections. Further calls, and further steps
+   * of stopped streams, fail with an "Adapter has been disposed" error.
+   */
   dispose(): Promise<void> {
-    this.db.close();
-    return Promise.resolve();
+    this.disposed ??= this.close();
+    return this.disposed;
+  }
+
+  private async close(): Promise<void> {
+    this.checkpoints?.stop();
+    this.checkpoints = null;
+
+    const deadline = Date.now() + this.disposeTimeout;
+    let release: (() => void) | null = null;
+    try {
+      release = await withTimeout(this[LOCK_TAG], this.disposeTimeout).acquire();
+    } catch {
+      debug("[js::dispose] Timed out after %dms waiting for the lock", this.disposeTimeout);
+      this.transaction?.abort("Transaction was rolled back because the adapter was disposed.");
+    }
+    // Readers are checked out by queries and streams without taking the lock
+    if (this.readers !== null && !(await this.readers.drain(deadline - Date.now()))) {
+      debug("[js::dispose] Timed out after %dms waiting for readers", this.disposeTimeout);
+    }
+
+    try {
+      if (this.optimizeOnDispose) {
+        this.runOnDispose("PRAGMA optimize");
+      }
+      if (this.checkpointOnDispose) {
+        this.runOnDispose("PRAGMA wal_checkpoint(TRUNCATE)");
+      }
+    } finally {
+      this.closed = true;
+      // Streams still open ran out of time, they fail on their next step
+      this.streams.close(disposedError());
+      this.readers?.connections.forEach((reader) => reader.close());
+      this.schema.invalidate();
+      this.db.close();
+      release?.();
+    }
+  }
+
+  // Housekeeping on the way out must not keep the adapter from closing
+  private runOnDispose(sql: string): void {
+    try {
+      this.db.run(sql);
+    } catch (e) {
+      debug("[js::dispose] %s failed: %O", sql, e);
+    }
   }
 }
 
+/**
+ * SQLite journal modes. In-memory databases always use `MEMORY`, and
+ * bun:sqlite's defensive mode refuses `OFF` on file databases.
+ */
+export type JournalMode = 'DELETE' | 'TRUNCATE' | 'PERSIST' | 'MEMORY' | 'WAL' | 'OFF';
+
+const JOURNAL_MODES: readonly JournalMode[] = ['DELETE', 'TRUNCATE', 'PERSIST', 'MEMORY', 'WAL', 'OFF'];
+
+/**
+ * Purpose of a connection opened by the factory: the main read-write
+ * connection, a reader of the reader pool, or the shadow database.
+ */
+export type ConnectionRole = 'writer' | 'reader' | 'shadow';
+
 // Factory for migrations and connections
 export type WALConfig = {
   enabled: boolean;
   synchronous?: 'OFF' | 'NORMAL' | 'FULL' | 'EXTRA';
   walAutocheckpoint?: number;
   busyTimeout?: number;
+  /**
+   * Background checkpoints on top of SQLite's automatic ones, which can't
+   * complete while readers keep the WAL in use. Stopped by `dispose`.
+   */
+  checkpoint?: CheckpointPolicy;
+};
+
+export type BunSQLiteAdapterOptions = {
+  /**
+   * Maximum number of prepared statements cached per connection, least
+   * recently used statements are finalized first. `0` disables caching.
+   * Defaults to 100.
+   */
+  statementCacheSize?: number;
+  /**
+   * BEGIN mode for transactions that don't request one. Defaults to DEFERRED.
+   */
+  transactionMode?: TransactionMode;
+  /**
+   * Maximum lifetime of a transaction in milliseconds. A transaction that is
+   * neither committed nor rolled back in time is rolled back and releases the
+   * lock, further use fails with `TransactionAlreadyClosed`. Disabled by default.
+   */
+  transactionTimeout?: number;
+  /**
+   * Maximum time in milliseconds `startTransaction` and standalone queries
+   * wait for an open transaction to finish before failing. Waits indefinitely
+   * by default.
+   */
+  transactionAcquireTimeout?: number;
+  /**
+   * Retries `BEGIN`, `COMMIT` and standalone statements that fail with
+   * SQLITE_BUSY, backing off exponentially between attempts. Statements
+   * inside a transaction and multi-statement scripts are never retried.
+   * Disabled by default, `true` uses the default policy.
+   */
+  busyRetry?: boolean | BusyRetryConfig;
+  /**
+   * Milliseconds a statement may run before it is interrupted, unless the
+   * call passes its own `timeout`. Disabled by default.
+   */
+  queryTimeout?: number;
+  /**
+   * PRAGMA settings applied to the database and every reader connection.
+   * Each pragma is read back after setting it, one that doesn't take effect
+   * fails the connection. `foreign_keys` defaults to true.
+   */
+  pragmas?: SQLitePragmas;
+  /**
+   * Maximum time in milliseconds `dispose` waits for an open transaction and
+   * queued statements to finish. A transaction still open afterwards is
+   * rolled back. Defaults to 5000.
+   */
+  disposeTimeout?: number;
+  /**
+   * Run `PRAGMA optimize` on dispose, so the query planner statistics stay
+   * current for the next connection. Disabled by default.
+   */
+  optimizeOnDispose?: boolean;
+  /**
+   * Run a TRUNCATE checkpoint on dispose, emptying the `-wal` file even when
+   * other connections keep the database open. Disabled by default.
+   */
+  checkpointOnDispose?: boolean;
 };
 
-type BunSQLiteFactoryParams = {
+type BunSQLiteFactoryParams = BunSQLiteAdapterOptions & {
+  /**
+   * File path, `:memory:` or a SQLite `file:` URI. URIs accept `mode`,
+   * `cache` and `immutable` plus Prisma's `connection_limit`,
+   * `socket_timeout`, `pool_timeout` and `statement_cache_size`. Options
+   * passed to the factory take precedence over URL parameters.
+   */
   url: ":memory:" | (string & {});
   shadowDatabaseURL?: ":memory:" | (string & {});
+  /**
+   * Initial contents of the database, the bytes of a database file or the
+   * path of a template database. In-memory databases start from a copy on
+   * every connect, a database file is only created from it when it doesn't
+   * exist yet.
+   */
+  source?: DatabaseSource;
+  /**
+   * Initial contents of the shadow database, like `source`.
+   */
+  shadowSource?: DatabaseSource;
   walMode?: boolean | WALConfig;
+  /**
+   * Journal mode set and verified when connecting. Leaving WAL mode requires
+   * that no other connection has the database open. Defaults to the mode the
+   * database file is in, or WAL when `walMode` is enabled.
+   */
+  journalMode?: JournalMode;
+  /**
+   * SQLite extensions loaded into every connection, including reader
+   * connections and the shadow database, before any other setup.
+   */
+  extensions?: SQLiteExtension[];
+  /**
+   * Databases attached to the database and its reader connections, keyed by
+   * schema name: `{ archive: './archive.db' }` makes `archive.table`
+   * available to queries. The shadow database gets none, so migrations
+   * replayed there can't write to attached files.
+   */
+  attachments?: Record<string, string>;
+  /**
+   * Called with every connection the factory opens, after extensions,
+   * attachments, pragmas and the journal mode are set up and before the adapter is
+   * returned. A failure closes all connections. Not supported in worker mode.
+   */
+  onConnect?: (db: Database, role: ConnectionRole) => void | Promise<void>;
+  /**
+   * Opens the database read-only, writes fail with `DatabaseAccessDenied`.
+   * Overrides the URL's `mode`. Defaults to false.
+   */
+  readonly?: boolean;
+  /**
+   * Creates the database file when it doesn't exist. Without it, connecting
+   * to a missing file fails with `DatabaseDoesNotExist`. Overrides the URL's
+   * `mode`. Defaults to true, false for read-only databases.
+   */
+  create?: boolean;
+  /**
+   * Number of read-only connections serving standalone queries next to the
+   * writer. Only used when the database is in WAL mode. Defaults to 0.
+   */
+  readPoolSize?: number;
+  /**
+   * Runs the database on a dedicated worker thread so SQLite work never
+   * blocks the event loop. Every call is copied to the worker and back,
+   * which adds latency to fast queries. Defaults to false.
+   */
+  worker?: boolean;
 };
 
 export class PrismaBunSQLiteAdapterFactory
@@ -370,64 +1382,261 @@ export class PrismaBunSQLiteAdapterFactory
 
   constructor(private readonly config: BunSQLiteFactoryParams) { }
 
-  connect(): Promise<SqlDriverAdapter> {
-    return Promise.resolve(new PrismaBunSQLiteAdapter(createBunSqliteClient({ ...this.config })));
+  async connect(): Promise<BunSQLiteDriverAdapter> {
+    if (this.config.worker) {
+      return PrismaBunSQLiteWorkerAdapter.open(workerParams(this.config));
+    }
+    const location = resolveLocation(this.config);
+    const options = { ...location.options, ...this.config };
+    const db = createBunSqliteClient(location, options);
+    let readers: Database[] = [];
+    let adapter: PrismaBunSQLiteAdapter;
+    try {
+      readers = createReaders(db, options.readPoolSize ?? 0, options);
+      adapter = new PrismaBunSQLiteAdapter(db, options, readers);
+      if (typeof options.walMode === 'object' && options.walMode.enabled && options.walMode.checkpoint) {
+        adapter.scheduleCheckpoints(options.walMode.checkpoint);
+      }
+    } catch (e) {
+      readers.forEach((reader) => reader.close());
+      db.close();
+      throw e;
+    }
+    return initializeConnections(adapter, options.onConnect, [
+      [db, 'writer'],
+      ...readers.map((reader): [Database, ConnectionRole] => [reader, 'reader']),
+    ]);
   }
 
-  connectToShadowDb(): Promise<SqlDriverAdapter> {
-    const url = (this.config.shadowDatabaseURL ?? ":memory:")
-    return Promise.resolve(new PrismaBunSQLiteAdapter(createBunSqliteClient({ ...this.config, url })));
+  async connectToShadowDb(): Promise<BunSQLiteDriverAdapter> {
+    if (this.config.worker) {
+      return PrismaBunSQLiteWorkerAdapter.open(workerParams(this.config), true);
+    }
+    // Migrations write to the shadow database, readonly and create don't
+    // apply and attached databases are left alone
+    const location = parseDatabaseUrl(this.config.shadowDatabaseURL ?? ":memory:");
+    const options = { ...location.options, ...this.config, source: this.config.shadowSource, attachments: undefined };
+    const db = createBunSqliteClient(location, options);
+    let adapter: PrismaBunSQLiteAdapter;
+    try {
+      adapter = new PrismaBunSQLiteAdapter(db, options);
+    } catch (e) {
+      db.close();
+      throw e;
+    }
+    return initializeConnections(adapter, options.onConnect, [[db, 'shadow']]);
   }
 }
 
-function createBunSqliteClient(input: BunSQLiteFactoryParams): StdClient {
-  const { url, walMode } = input
-  const filename = url.replace(/^file:/, '')
-  const db = new Database(filename, { safeIntegers: true })
+function workerParams(config: BunSQLiteFactoryParams): BunSQLiteFactoryParams {
+  // Functions can't be copied to the worker thread
+  if (config.onConnect !== undefined) {
+    throw genericError("onConnect is not supported in worker mode");
+  }
+  return { ...config, worker: false };
+}
 
-  // Configure WAL mode if enabled
-  if (walMode) {
+// Runs onConnect on every connection, the adapter is disposed when one fails
+async function initializeConnections(
+  adapter: PrismaBunSQLiteAdapter,
+  onConnect: BunSQLiteFactoryParams['onConnect'],
+  connections: [Database, ConnectionRole][],
+): Promise<PrismaBunSQLiteAdapter> {
+  if (onConnect === undefined) {
+    return adapter;
+  }
+  try {
+    for (const [db, role] of connections) {
+      await onConnect(db, role);
+    }
+  } catch (e) {
+    await adapter.dispose();
+    if (e instanceof DriverAdapterError) {
+      throw e;
+    }
+    throw genericError(`onConnect failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return adapter;
+}
+
+// Factory options take precedence over the URL's mode parameter
+function resolveLocation({ url, readonly, create }: BunSQLiteFactoryParams): DatabaseLocation {
+  const location = parseDatabaseUrl(url);
+  if (readonly !== undefined) {
+    location.readonly = readonly;
+    location.create = location.create && !readonly;
+  }
+  if (create !== undefined) {
+    if (create && location.readonly) {
+      throw genericError("A read-only database can't be created, set create to false");
+    }
+    location.create = create;
+  }
+  return location;
+}
+
+function createBunSqliteClient(location: DatabaseLocation, input: BunSQLiteFactoryParams): StdClient {
+  const { walMode } = input
+  const db = openDatabase(location, input.source);
+
+  // Prisma's socket_timeout, an explicit WAL busyTimeout is applied after it
+  if (location.busyTimeout !== undefined) {
+    db.run(`PRAGMA busy_timeout = ${location.busyTimeout}`);
+  }
+
+  // page_size can't change once the database is in WAL mode, apply pragmas
+  // before configuring it. The adapter re-applies them, which is a no-op.
+  try {
+    loadExtensions(db, input.extensions);
+    attachDatabases(db, input.attachments);
+    applyPragmas(db, input.pragmas);
+  } catch (e) {
+    db.close();
+    throw e;
+  }
+
+  const journalMode = resolveJournalMode(input);
+  if (journalMode !== undefined) {
     try {
-      configureWALMode(db, walMode);
+      const applied = configureJournalMode(db, journalMode);
+      if (applied && journalMode === 'WAL' && typeof walMode === 'object') {
+        configureWALSettings(db, walMode);
+      }
     } catch (e) {
       db.close();
-      throw new DriverAdapterError({
-        kind: "GenericJs",
-        id: 0,
-        originalMessage: `Failed to configure WAL mode: ${e instanceof Error ? e.message : String(e)}`,
-      });
+      throw genericError(`Failed to configure journal mode: ${e instanceof Error ? e.message : String(e)}`);
     }
   }
 
   return db
 }
 
-function configureWALMode(db: Database, walConfig: boolean | WALConfig): void {
-  // Normalize config
-  const config: WALConfig = typeof walConfig === 'boolean' 
-    ? { enabled: walConfig }
-    : walConfig;
+function openDatabase(location: DatabaseLocation, source: DatabaseSource | undefined): Database {
+  if (source !== undefined) {
+    if (location.filename === ':memory:' || location.filename === '') {
+      return deserializeDatabase(readSource(source), location.readonly);
+    }
+    // Existing data is never overwritten, the source only seeds a new file
+    if (location.create && !existsSync(location.filename)) {
+      writeSnapshot(location.filename, readSource(source));
+    }
+  }
 
-  if (!config.enabled) {
-    return;
+  try {
+    return new Database(location.filename, {
+      safeIntegers: true,
+      readonly: location.readonly,
+      // Without create, bun:sqlite opens read-write only when asked to
+      create: location.create,
+      readwrite: !location.readonly,
+    })
+  } catch (e) {
+    if (!location.create && !existsSync(location.filename)) {
+      throw new DriverAdapterError({ kind: "DatabaseDoesNotExist", db: location.filename });
+    }
+    throw e;
   }
+}
 
-  // Set journal mode to WAL
-  const journalResult = db.query("PRAGMA journal_mode = WAL;").get() as { journal_mode: string } | undefined;
-  const currentMode = journalResult?.journal_mode?.toLowerCase();
-  
-  // Memory databases don't support WAL mode, silently ignore
-  if (currentMode === 'memory') {
-    debug("WAL mode not supported for in-memory database, skipping");
-    return;
+function createReaders(writer: Database, size: number, input: BunSQLiteFactoryParams): Database[] {
+  if (!Number.isInteger(size) || size < 0) {
+    throw genericError(`Read pool size must be a non-negative integer, got ${size}`);
+  }
+  if (size === 0) {
+    return [];
   }
-  
-  if (!journalResult || currentMode !== 'wal') {
-    throw new Error(`Failed to enable WAL mode. Current mode: ${currentMode || 'unknown'}`);
+
+  // Outside WAL mode readers would block the writer, memory databases can't be shared at all
+  const { journal_mode } = writer.query("PRAGMA journal_mode").get() as { journal_mode: string };
+  if (journal_mode.toLowerCase() !== 'wal') {
+    debug("Reader pool requires WAL mode (journal mode: %s), serving reads from the writer", journal_mode);
+    return [];
   }
 
-  debug("WAL mode enabled successfully");
+  const readers: Database[] = [];
+  try {
+    for (let i = 0; i < size; i++) {
+      readers.push(new Database(writer.filename, { readonly: true, safeIntegers: true }));
+    }
+  } catch (e) {
+    readers.forEach((reader) => reader.close());
+    throw genericError(`Failed to open reader connection: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  try {
+    for (const reader of readers) {
+      loadExtensions(reader, input.extensions);
+      attachDatabases(reader, input.attachments);
+    }
+  } catch (e) {
+    readers.forEach((reader) => reader.close());
+    throw e;
+  }
+  debug("Opened %d reader connection(s)", size);
+  return readers;
+}
+
+function attachDatabases(db: Database, attachments: Record<string, string> = {}): void {
+  for (const [schema, url] of Object.entries(attachments)) {
+    // ATTACH takes plain filenames, URI parameters would need SQLITE_OPEN_URI
+    if (url.startsWith('file:') && url.includes('?')) {
+      throw genericError(`Attached database ${schema} can't take URL parameters: ${url}`);
+    }
+    const { filename } = parseDatabaseUrl(url);
+    try {
+      db.run(`ATTACH DATABASE ? AS ${quoteIdentifier(schema)}`, [filename]);
+    } catch (e) {
+      throw genericError(`Failed to attach database ${schema}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    debug("Attached %s as %s", filename, schema);
+  }
+}
+
+function resolveJournalMode({ journalMode, walMode }: BunSQLiteFactoryParams): JournalMode | undefined {
+  const walEnabled = typeof walMode === 'boolean' ? walMode : walMode?.enabled ?? false;
+  if (journalMode === undefined) {
+    return walEnabled ? 'WAL' : undefined;
+  }
+
+  const mode = journalMode.toUpperCase();
+  if (!JOURNAL_MODES.includes(mode as JournalMode)) {
+    throw genericError(`Invalid journal mode: ${journalMode}. Expected one of ${JOURNAL_MODES.join(', ')}`);
+  }
+  if (walEnabled && mode !== 'WAL') {
+    throw genericError(`Journal mode ${mode} conflicts with walMode, which requires WAL`);
+  }
+  return mode as JournalMode;
+}
+
+// Returns false when the database can't change its journal mode
+function configureJournalMode(db: Database, mode: JournalMode): boolean {
+  // In-memory databases always keep their journal in memory, silently ignore
+  if (db.filename === ':memory:' || db.filename === '') {
+    debug("Journal mode %s not supported for in-memory database, skipping", mode);
+    return false;
+  }
+
+  let result: { journal_mode: string } | null;
+  try {
+    result = db.query(`PRAGMA journal_mode = ${mode}`).get() as { journal_mode: string } | null;
+  } catch (e) {
+    // Leaving WAL mode needs an exclusive lock on the database file
+    const hint = (e as { code?: string }).code === 'SQLITE_BUSY'
+      ? ', another connection has the database open'
+      : '';
+    throw new Error(`Failed to set journal mode ${mode}${hint}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const currentMode = result?.journal_mode?.toUpperCase();
+  if (currentMode !== mode) {
+    // bun:sqlite enables SQLITE_DBCONFIG_DEFENSIVE, which keeps the journal on
+    const hint = mode === 'OFF' ? ', bun:sqlite connections run in defensive mode' : '';
+    throw new Error(`Failed to set journal mode ${mode}${hint}. Current mode: ${currentMode || 'unknown'}`);
+  }
+  debug("Journal mode set to %s", mode);
+  return true;
+}
 
+function configureWALSettings(db: Database, config: WALConfig): void {
   // Configure synchronous mode if specified
   if (config.synchronous) {
     db.exec(`PRAGMA synchronous = ${config.synchronous};`);
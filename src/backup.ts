@@ -0,0 +1,52 @@
+import type { Database } from "bun:sqlite";
+import { Debug } from "@prisma/driver-adapter-utils";
+import { existsSync, renameSync, rmSync } from "fs";
+
+import { genericError } from "./errors";
+import { quoteIdentifier } from "./statements";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:backup");
+
+export type BackupOptions = {
+  /** Database to copy, `main` or the schema name of an attached database. Defaults to `main`. */
+  schema?: string;
+  /** Replace an existing file at the target path. Defaults to false. */
+  overwrite?: boolean;
+};
+
+/**
+ * Writes a compacted copy of the database to `target` with VACUUM INTO. The
+ * copy is written next to the target first and renamed into place, so a
+ * failed backup never leaves a partial file behind.
+ */
+export function backupDatabase(db: Database, target: string, { schema = 'main', overwrite = false }: BackupOptions = {}): void {
+  if (!overwrite && existsSync(target)) {
+    throw genericError(`Backup target ${target} already exists, set overwrite to replace it`);
+  }
+
+  const partial = `${target}.${process.pid}-${Date.now()}.partial`;
+  try {
+    db.run(`VACUUM ${quoteIdentifier(schema)} INTO ?`, [partial]);
+  } catch (e) {
+    rmSync(partial, { force: true });
+    throw genericError(`Failed to back up ${schema} to ${target}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  try {
+    renameSync(partial, target);
+  } catch (e) {
+    rmSync(partial, { force: true });
+    throw genericError(`Failed to move backup into place at ${target}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  debug("Backed up %s to %s", schema, target);
+}
+
+/**
+ * Returns the database as the bytes of a database file.
+ */
+export function serializeDatabase(db: Database, schema = 'main'): Uint8Array {
+  try {
+    return db.serialize(schema);
+  } catch (e) {
+    throw genericError(`Failed to serialize ${schema}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
@@ -0,0 +1,69 @@
+import { genericError, interruptedError } from "./errors";
+
+export type QueryOptions = {
+  /**
+   * Milliseconds the statement may run before it is interrupted. Overrides
+   * the adapter's `queryTimeout`. Time spent waiting for the lock doesn't count.
+   */
+  timeout?: number;
+  /** Interrupts the statement once aborted. Requires worker mode. */
+  signal?: AbortSignal;
+};
+
+// Signals a running statement can observe, see sharedAbortSignal()
+const sharedSignals = new WeakSet<AbortSignal>();
+
+/**
+ * Wraps the flag the main thread sets when a signal aborts, for statements
+ * running on the worker thread. An in-process signal can't abort while the
+ * synchronous statement blocks the event loop, so only these are accepted.
+ */
+export function sharedAbortSignal(flag: Int32Array): AbortSignal {
+  const signal = {
+    get aborted() {
+      return Atomics.load(flag, 0) === 1;
+    },
+  } as AbortSignal;
+  sharedSignals.add(signal);
+  return signal;
+}
+
+/**
+ * Decides whether a statement has to stop. bun:sqlite cannot interrupt a
+ * statement from the outside, so this is checked before a statement starts
+ * and between the rows of a query, never once its last row has arrived.
+ */
+export class QueryInterrupt {
+  private readonly deadline: number | undefined;
+
+  private constructor(
+    private readonly timeout: number | undefined,
+    private readonly signal: AbortSignal | undefined,
+  ) {
+    this.deadline = timeout === undefined ? undefined : Date.now() + timeout;
+  }
+
+  /**
+   * Returns null when neither a timeout nor a signal applies.
+   */
+  static from(options: QueryOptions = {}, defaultTimeout?: number): QueryInterrupt | null {
+    if (options.signal !== undefined && !sharedSignals.has(options.signal)) {
+      throw genericError("An AbortSignal can only interrupt queries in worker mode");
+    }
+    const timeout = options.timeout ?? defaultTimeout;
+    if (timeout === undefined && options.signal === undefined) {
+      return null;
+    }
+    return new QueryInterrupt(timeout, options.signal);
+  }
+
+  check(): void {
+    if (this.signal?.aborted) {
+      const reason = this.signal.reason instanceof Error ? `: ${this.signal.reason.message}` : "";
+      throw interruptedError(`Query was aborted${reason}`);
+    }
+    if (this.deadline !== undefined && Date.now() > this.deadline) {
+      throw interruptedError(`Query exceeded its ${this.timeout}ms timeout`);
+    }
+  }
+}
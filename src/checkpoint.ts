@@ -0,0 +1,109 @@
+import { Debug } from "@prisma/driver-adapter-utils";
+import { statSync } from "fs";
+
+import { genericError } from "./errors";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:checkpoint");
+
+/**
+ * How `wal_checkpoint` treats readers and writers. `PASSIVE` copies what it
+ * can without waiting, `FULL` waits for writers, `RESTART` also for readers
+ * so the WAL starts over, and `TRUNCATE` additionally empties the `-wal` file.
+ */
+export type CheckpointMode = 'PASSIVE' | 'FULL' | 'RESTART' | 'TRUNCATE';
+
+const CHECKPOINT_MODES: readonly CheckpointMode[] = ['PASSIVE', 'FULL', 'RESTART', 'TRUNCATE'];
+
+export type CheckpointResult = {
+  /** A FULL, RESTART or TRUNCATE checkpoint was blocked by another connection. */
+  busy: boolean;
+  /** Frames in the WAL, -1 outside WAL mode. */
+  log: number;
+  /** Frames copied back into the database file, -1 outside WAL mode. */
+  checkpointed: number;
+};
+
+export type CheckpointPolicy = {
+  /**
+   * Milliseconds between checkpoints, or between WAL size checks when
+   * `walSizeLimit` is set. Defaults to 1000 with `walSizeLimit`.
+   */
+  interval?: number;
+  /** Only checkpoint once the `-wal` file is larger than this many bytes. */
+  walSizeLimit?: number;
+  /** Defaults to PASSIVE. */
+  mode?: CheckpointMode;
+};
+
+export function assertCheckpointMode(mode: string): asserts mode is CheckpointMode {
+  if (!CHECKPOINT_MODES.includes(mode as CheckpointMode)) {
+    throw genericError(`Invalid checkpoint mode: ${mode}. Expected one of ${CHECKPOINT_MODES.join(', ')}`);
+  }
+}
+
+/**
+ * Runs checkpoints in the background according to a `CheckpointPolicy` until
+ * stopped. A checkpoint still waiting for the database skips further ticks.
+ */
+export class CheckpointScheduler {
+  private readonly timer: ReturnType<typeof setInterval>;
+  private readonly mode: CheckpointMode;
+  private readonly walSizeLimit: number | undefined;
+  private running = false;
+
+  constructor(
+    policy: CheckpointPolicy,
+    private readonly filename: string,
+    private readonly checkpoint: (mode: CheckpointMode) => Promise<CheckpointResult>,
+  ) {
+    const { interval = 1000, walSizeLimit, mode = 'PASSIVE' } = policy;
+    if (policy.interval === undefined && walSizeLimit === undefined) {
+      throw genericError("Checkpoint policy needs an interval or a walSizeLimit");
+    }
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw genericError(`Checkpoint interval must be a positive integer, got ${interval}`);
+    }
+    if (walSizeLimit !== undefined && (!Number.isInteger(walSizeLimit) || walSizeLimit < 0)) {
+      throw genericError(`Checkpoint walSizeLimit must be a non-negative integer, got ${walSizeLimit}`);
+    }
+    assertCheckpointMode(mode);
+
+    this.mode = mode;
+    this.walSizeLimit = walSizeLimit;
+    this.timer = setInterval(() => this.tick(), interval);
+    // Checkpoints alone shouldn't keep the process alive
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    if (this.walSizeLimit !== undefined && walFileSize(this.filename) <= this.walSizeLimit) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const result = await this.checkpoint(this.mode);
+      debug("%s checkpoint copied %d of %d frame(s)%s", this.mode, result.checkpointed, result.log, result.busy ? ", blocked" : "");
+    } catch (e) {
+      debug("Background checkpoint failed: %O", e);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+function walFileSize(filename: string): number {
+  try {
+    return statSync(`${filename}-wal`).size;
+  } catch {
+    // No WAL file yet, or an in-memory database
+    return 0;
+  }
+}
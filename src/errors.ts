@@ -1,4 +1,36 @@
-import { Error as DriverAdapterErrorObject } from "@prisma/driver-adapter-utils";
+import { DriverAdapterError, Error as DriverAdapterErrorObject } from "@prisma/driver-adapter-utils";
+
+/**
+ * Creates an adapter error for failures that don't originate from SQLite.
+ */
+export function genericError(message: string): DriverAdapterError {
+  return new DriverAdapterError({
+    kind: "GenericJs",
+    id: 0,
+    originalMessage: message,
+  });
+}
+
+// Result code SQLite reports for statements stopped by sqlite3_interrupt()
+const SQLITE_INTERRUPT = 9;
+
+/**
+ * Creates the error for a statement stopped by a timeout or an aborted
+ * signal. It is reported like SQLITE_INTERRUPT.
+ */
+export function interruptedError(reason: string): DriverAdapterError {
+  return new DriverAdapterError({
+    kind: "sqlite",
+    extendedCode: SQLITE_INTERRUPT,
+    message: reason,
+  });
+}
+
+export function isInterruptedError(error: unknown): error is DriverAdapterError {
+  return error instanceof DriverAdapterError
+    && error.cause.kind === "sqlite"
+    && error.cause.extendedCode === SQLITE_INTERRUPT;
+}
 
 export function convertDriverError(error: any): DriverAdapterErrorObject {
   if (typeof error.message !== "string") {
@@ -13,6 +45,23 @@ export function convertDriverError(error: any): DriverAdapterErrorObject {
       return {
         kind: "SocketTimeout",
       };
+    case "SQLITE_BUSY_SNAPSHOT":
+      // A deferred transaction tried to write after another connection
+      // committed on top of its read snapshot, retrying cannot help
+      return {
+        kind: "TransactionWriteConflict",
+      };
+    case "SQLITE_READONLY":
+      // Read-only connections and PRAGMA query_only
+      return {
+        kind: "DatabaseAccessDenied",
+      };
+    case "SQLITE_INTERRUPT":
+      return {
+        kind: "sqlite",
+        extendedCode: SQLITE_INTERRUPT,
+        message: error.message,
+      };
     case "SQLITE_CONSTRAINT_UNIQUE":
     case "SQLITE_CONSTRAINT_PRIMARYKEY": {
       const fields = error.message
@@ -0,0 +1,28 @@
+import type { Database } from "bun:sqlite";
+import { Debug } from "@prisma/driver-adapter-utils";
+
+import { genericError } from "./errors";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:extensions");
+
+/**
+ * A loadable SQLite extension, either its path or the path with the name of
+ * its entry point. SQLite derives the entry point from the file name when
+ * none is given.
+ */
+export type SQLiteExtension = string | { path: string; entryPoint?: string };
+
+/**
+ * Loads `extensions` into the connection in order.
+ */
+export function loadExtensions(db: Database, extensions: readonly SQLiteExtension[] = []): void {
+  for (const extension of extensions) {
+    const { path, entryPoint } = typeof extension === 'string' ? { path: extension, entryPoint: undefined } : extension;
+    try {
+      db.loadExtension(path, entryPoint);
+    } catch (e) {
+      throw genericError(`Failed to load SQLite extension ${path}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    debug("Loaded extension %s", path);
+  }
+}
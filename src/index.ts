@@ -1 +1,9 @@
-export { PrismaBunSQLiteAdapterFactory as PrismaBunSQLite, WALConfig } from './adapter'
+export { PrismaBunSQLiteAdapterFactory as PrismaBunSQLite, BunSQLiteDriverAdapter, ConnectionRole, JournalMode, WALConfig, BunSQLiteAdapterOptions, BunSQLiteTransactionOptions, NestableTransaction, QueryStreamOptions, TransactionMode } from './adapter'
+export { StatementCacheStats } from './statement-cache'
+export { BusyRetryConfig, BusyRetryStats } from './retry'
+export { QueryOptions } from './cancellation'
+export { SQLitePragmas } from './pragmas'
+export { SQLiteExtension } from './extensions'
+export { CheckpointMode, CheckpointPolicy, CheckpointResult } from './checkpoint'
+export { BackupOptions } from './backup'
+export { DatabaseSource } from './snapshot'
@@ -0,0 +1,39 @@
+import { Debug } from "@prisma/driver-adapter-utils";
+import type { Statement } from "bun:sqlite";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:open-streams");
+
+/**
+ * Statements of the streams open on a connection. Closing finalizes them
+ * while their consumers may still hold the streams, which then fail with the
+ * close error on their next step instead of reading from a closed connection.
+ */
+export class OpenStreams {
+  private readonly statements = new Set<Statement>();
+  private closedWith: Error | null = null;
+
+  add(stmt: Statement): void {
+    this.statements.add(stmt);
+  }
+
+  delete(stmt: Statement): void {
+    this.statements.delete(stmt);
+  }
+
+  assertOpen(): void {
+    if (this.closedWith !== null) {
+      throw this.closedWith;
+    }
+  }
+
+  close(error: Error): void {
+    if (this.statements.size > 0) {
+      debug("Finalizing %d open stream(s)", this.statements.size);
+    }
+    this.closedWith = error;
+    for (const stmt of this.statements) {
+      stmt.finalize();
+    }
+    this.statements.clear();
+  }
+}
@@ -0,0 +1,120 @@
+import type { Database } from "bun:sqlite";
+import { Debug } from "@prisma/driver-adapter-utils";
+
+import { genericError } from "./errors";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:pragmas");
+
+/**
+ * PRAGMA settings applied to every connection the adapter opens.
+ */
+export type SQLitePragmas = {
+  /** Enforce foreign key constraints. Defaults to true. */
+  foreign_keys?: boolean;
+  recursive_triggers?: boolean;
+  /** Pages when positive, KiB when negative. */
+  cache_size?: number;
+  /** Bytes of the database file to memory-map, 0 disables. */
+  mmap_size?: number;
+  temp_store?: 'DEFAULT' | 'FILE' | 'MEMORY';
+  /** Only takes effect before the database file is created. */
+  page_size?: number;
+  /** Only takes effect before the first table is created. */
+  auto_vacuum?: 'NONE' | 'FULL' | 'INCREMENTAL';
+  /** Milliseconds to wait for a lock before failing with SQLITE_BUSY. */
+  busy_timeout?: number;
+  synchronous?: 'OFF' | 'NORMAL' | 'FULL' | 'EXTRA';
+  secure_delete?: boolean | 'FAST';
+  automatic_index?: boolean;
+  cell_size_check?: boolean;
+  trusted_schema?: boolean;
+  query_only?: boolean;
+  wal_autocheckpoint?: number;
+  journal_size_limit?: number;
+};
+
+type PragmaDefinition = {
+  // Values of an enumerated pragma in the order of the number SQLite reports
+  values: 'boolean' | 'integer' | readonly string[];
+  // Stored in the database file, can't be set through a read-only connection
+  persistent?: boolean;
+};
+
+const PRAGMAS: { [K in keyof SQLitePragmas]-?: PragmaDefinition } = {
+  foreign_keys: { values: 'boolean' },
+  recursive_triggers: { values: 'boolean' },
+  cache_size: { values: 'integer' },
+  mmap_size: { values: 'integer' },
+  temp_store: { values: ['DEFAULT', 'FILE', 'MEMORY'] },
+  page_size: { values: 'integer', persistent: true },
+  auto_vacuum: { values: ['NONE', 'FULL', 'INCREMENTAL'], persistent: true },
+  busy_timeout: { values: 'integer' },
+  synchronous: { values: ['OFF', 'NORMAL', 'FULL', 'EXTRA'] },
+  secure_delete: { values: ['OFF', 'ON', 'FAST'] },
+  automatic_index: { values: 'boolean' },
+  cell_size_check: { values: 'boolean' },
+  trusted_schema: { values: 'boolean' },
+  query_only: { values: 'boolean' },
+  wal_autocheckpoint: { values: 'integer' },
+  journal_size_limit: { values: 'integer' },
+};
+
+const DEFAULT_PRAGMAS: SQLitePragmas = { foreign_keys: true };
+
+/**
+ * Applies `pragmas` on top of the defaults and reads every one back, a pragma
+ * SQLite doesn't accept fails instead of being ignored. Persistent pragmas
+ * are skipped on read-only connections.
+ */
+export function applyPragmas(db: Database, pragmas: SQLitePragmas = {}, readonly = false): void {
+  for (const [name, value] of Object.entries({ ...DEFAULT_PRAGMAS, ...pragmas })) {
+    if (value === undefined) {
+      continue;
+    }
+    const definition = PRAGMAS[name as keyof SQLitePragmas];
+    if (definition === undefined) {
+      throw genericError(`Unknown pragma: ${name}. Expected one of ${Object.keys(PRAGMAS).join(', ')}`);
+    }
+    if (readonly && definition.persistent) {
+      continue;
+    }
+
+    const { literal, expected } = encode(name, definition, value);
+    try {
+      db.run(`PRAGMA ${name} = ${literal}`);
+    } catch (e) {
+      throw genericError(`Failed to apply PRAGMA ${name} = ${literal}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    const row = db.query(`PRAGMA ${name}`).values()[0];
+    // Pragmas that don't apply to the database report nothing, mmap_size on memory databases for one
+    if (row === undefined) {
+      debug("PRAGMA %s does not apply to this database", name);
+      continue;
+    }
+    if (Number(row[0]) !== expected) {
+      throw genericError(`PRAGMA ${name} = ${literal} did not take effect, SQLite reports ${row[0]}`);
+    }
+    debug("PRAGMA %s set to %s", name, literal);
+  }
+}
+
+function encode(name: string, definition: PragmaDefinition, value: unknown): { literal: string; expected: number } {
+  const { values } = definition;
+  // Enumerations starting with OFF, ON also take booleans
+  if (typeof value === 'boolean' && (values === 'boolean' || (typeof values !== 'string' && values[1] === 'ON'))) {
+    return { literal: value ? 'ON' : 'OFF', expected: value ? 1 : 0 };
+  }
+  if (typeof value === 'number' && values === 'integer' && Number.isInteger(value)) {
+    return { literal: String(value), expected: value };
+  }
+  if (typeof value === 'string' && typeof values !== 'string') {
+    const expected = values.indexOf(value.toUpperCase());
+    if (expected !== -1) {
+      return { literal: values[expected], expected };
+    }
+  }
+
+  const expected = typeof values !== 'string' ? values.join(', ') : values === 'integer' ? 'an integer' : 'a boolean';
+  throw genericError(`Invalid value for PRAGMA ${name}: ${String(value)}. Expected ${expected}`);
+}
@@ -0,0 +1,72 @@
+import { Debug } from "@prisma/driver-adapter-utils";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:reader-pool");
+
+/**
+ * Hands out read-only connections one caller at a time. Callers wait in
+ * FIFO order while every connection is checked out.
+ */
+export class ReaderPool<T> {
+  private readonly idle: T[];
+  private readonly waiters: Array<(connection: T) => void> = [];
+  private readonly drainers = new Set<() => void>();
+
+  constructor(readonly connections: readonly T[]) {
+    if (connections.length === 0) {
+      throw new RangeError("Reader pool needs at least one connection");
+    }
+    this.idle = [...connections];
+  }
+
+  async use<R>(fn: (connection: T) => Promise<R>): Promise<R> {
+    const connection = await this.acquire();
+    try {
+      return await fn(connection);
+    } finally {
+      this.release(connection);
+    }
+  }
+
+  acquire(): Promise<T> {
+    const connection = this.idle.pop();
+    if (connection !== undefined) {
+      return Promise.resolve(connection);
+    }
+    debug("All %d reader(s) busy, waiting", this.connections.length);
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  release(connection: T): void {
+    const waiter = this.waiters.shift();
+    if (waiter !== undefined) {
+      waiter(connection);
+      return;
+    }
+    this.idle.push(connection);
+    if (this.idle.length === this.connections.length) {
+      this.drainers.forEach((drained) => drained());
+    }
+  }
+
+  /**
+   * Resolves with true once every connection is back in the pool, or with
+   * false when that takes longer than `timeout` milliseconds.
+   */
+  drain(timeout: number): Promise<boolean> {
+    if (this.idle.length === this.connections.length) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      const drained = () => {
+        clearTimeout(timer);
+        this.drainers.delete(drained);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.drainers.delete(drained);
+        resolve(false);
+      }, Math.max(timeout, 0));
+      this.drainers.add(drained);
+    });
+  }
+}
@@ -0,0 +1,108 @@
+import { Debug, isDriverAdapterError } from "@prisma/driver-adapter-utils";
+
+import { genericError } from "./errors";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:retry");
+
+export type BusyRetryConfig = {
+  /** Total attempts including the first one. Defaults to 5. */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled on every retry. Defaults to 10. */
+  initialDelay?: number;
+  /** Upper bound for a single delay in milliseconds. Defaults to 1000. */
+  maxDelay?: number;
+  /** Randomise each delay between half and the full backoff. Defaults to true. */
+  jitter?: boolean;
+};
+
+export type BusyRetryStats = {
+  /** Number of retry attempts made. */
+  retries: number;
+  /** Operations that succeeded after at least one retry. */
+  recovered: number;
+  /** Operations that still failed with SQLITE_BUSY after the last attempt. */
+  exhausted: number;
+};
+
+/**
+ * Retries operations that fail because another connection holds the lock.
+ *
+ * Only wrap operations that are safe to repeat as a whole: `BEGIN`, `COMMIT`
+ * and statements running outside of a transaction.
+ */
+export class BusyRetryPolicy {
+  private readonly maxAttempts: number;
+  private readonly initialDelay: number;
+  private readonly maxDelay: number;
+  private readonly jitter: boolean;
+  private retries = 0;
+  private recovered = 0;
+  private exhausted = 0;
+
+  constructor(config: boolean | BusyRetryConfig = false) {
+    // Normalize config, disabled means a single attempt
+    const normalized: BusyRetryConfig = typeof config === 'boolean'
+      ? { maxAttempts: config ? undefined : 1 }
+      : config;
+
+    this.maxAttempts = normalized.maxAttempts ?? 5;
+    this.initialDelay = normalized.initialDelay ?? 10;
+    this.maxDelay = normalized.maxDelay ?? 1000;
+    this.jitter = normalized.jitter ?? true;
+
+    if (!Number.isInteger(this.maxAttempts) || this.maxAttempts < 1) {
+      throw genericError(`Busy retry maxAttempts must be a positive integer, got ${this.maxAttempts}`);
+    }
+  }
+
+  async run<T>(operation: string, fn: () => T | Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await fn();
+        if (attempt > 1) {
+          this.recovered++;
+        }
+        return result;
+      } catch (e) {
+        if (!isBusyError(e)) {
+          throw e;
+        }
+        if (attempt >= this.maxAttempts) {
+          if (this.maxAttempts > 1) {
+            this.exhausted++;
+          }
+          throw e;
+        }
+
+        const delay = this.delay(attempt);
+        debug("%s failed with SQLITE_BUSY (attempt %d/%d), retrying in %dms", operation, attempt, this.maxAttempts, delay);
+        this.retries++;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  stats(): BusyRetryStats {
+    return {
+      retries: this.retries,
+      recovered: this.recovered,
+      exhausted: this.exhausted,
+    };
+  }
+
+  private delay(attempt: number): number {
+    const backoff = Math.min(this.maxDelay, this.initialDelay * 2 ** (attempt - 1));
+    return this.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+  }
+}
+
+function isBusyError(error: any): boolean {
+  // Statements report busy errors already converted, BEGIN and COMMIT raw
+  if (isDriverAdapterError(error)) {
+    return error.cause.kind === "SocketTimeout";
+  }
+  // SQLITE_BUSY_SNAPSHOT is not transient, the transaction has to restart
+  return typeof error?.code === "string"
+    && error.code.startsWith("SQLITE_BUSY")
+    && error.code !== "SQLITE_BUSY_SNAPSHOT";
+}
@@ -0,0 +1,87 @@
+import { Debug } from "@prisma/driver-adapter-utils";
+
+import type { StatementCache } from "./statement-cache";
+import { quoteIdentifier } from "./statements";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:schema-cache");
+
+type TableInfoRow = {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+};
+
+/**
+ * Per-connection cache of declared column types, keyed by table.
+ *
+ * Entries are dropped when the adapter runs DDL and whenever
+ * `PRAGMA schema_version` moves, which also catches migrations applied by
+ * other connections or processes. Invalidating also clears the connection's
+ * statement cache, whose statements still describe the old columns.
+ */
+export class SchemaCache {
+  // Table and schema names are case-insensitive in SQLite
+  private readonly tables = new Map<string, Map<string, string>>();
+  private readonly schemaVersions = new Map<string, number>();
+
+  constructor(private readonly statements: StatementCache) { }
+
+  /**
+   * Returns a map of column name to declared type for `tableName`. Without
+   * `schema`, the table resolves like an unqualified name in a query.
+   */
+  getColumnTypes(tableName: string, schema: string | null = null): Map<string, string> {
+    this.checkSchemaVersion("main");
+    if (schema !== null) {
+      this.checkSchemaVersion(schema.toLowerCase());
+    }
+
+    const key = `${schema ?? ""}.${tableName}`.toLowerCase();
+    const cached = this.tables.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const pragma = schema === null
+      ? `PRAGMA table_info(${quoteIdentifier(tableName)})`
+      : `PRAGMA ${quoteIdentifier(schema)}.table_info(${quoteIdentifier(tableName)})`;
+    const tableInfo = this.statements.use(pragma, (stmt) => stmt.all()) as TableInfoRow[];
+    const columnTypes = new Map<string, string>();
+    tableInfo.forEach(col => {
+      columnTypes.set(col.name, col.type);
+    });
+
+    // A missing table yields no columns, don't remember it so it resolves once created
+    if (columnTypes.size > 0) {
+      this.tables.set(key, columnTypes);
+    }
+    return columnTypes;
+  }
+
+  invalidate(): void {
+    if (this.tables.size > 0) {
+      debug("Invalidating cached schema for %d table(s)", this.tables.size);
+    }
+    this.tables.clear();
+    this.schemaVersions.clear();
+    this.statements.clear();
+  }
+
+  private checkSchemaVersion(schema: string): void {
+    const row = this.statements.use(
+      `PRAGMA ${quoteIdentifier(schema)}.schema_version`,
+      (stmt) => stmt.get(),
+    ) as { schema_version: number | bigint };
+    const version = Number(row.schema_version);
+    if (version !== this.schemaVersions.get(schema)) {
+      // Any schema change may shadow unqualified names, start over
+      if (this.schemaVersions.has(schema)) {
+        this.invalidate();
+      }
+      this.schemaVersions.set(schema, version);
+    }
+  }
+}
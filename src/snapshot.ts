@@ -0,0 +1,81 @@
+import { Database } from "bun:sqlite";
+import { Debug } from "@prisma/driver-adapter-utils";
+import { writeFileSync } from "fs";
+
+import { genericError } from "./errors";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:snapshot");
+
+/**
+ * Initial contents of a database, either the bytes of a database file as
+ * returned by `serialize()` or the path of a template database to clone.
+ */
+export type DatabaseSource = Uint8Array | string;
+
+const HEADER = new TextEncoder().encode("SQLite format 3\0");
+
+// Offsets of the file format write and read versions in the database header, 2 means WAL
+const WRITE_VERSION = 18;
+const READ_VERSION = 19;
+
+/**
+ * Returns the database file `source` describes.
+ */
+export function readSource(source: DatabaseSource): Uint8Array {
+  const bytes = typeof source === 'string' ? readTemplate(source) : source;
+  if (bytes.length < HEADER.length || HEADER.some((byte, i) => bytes[i] !== byte)) {
+    throw genericError("Database source is not a SQLite database file");
+  }
+  return bytes;
+}
+
+/**
+ * Opens an in-memory database holding a copy of `bytes`.
+ */
+export function deserializeDatabase(bytes: Uint8Array, readonly: boolean): Database {
+  let snapshot = bytes;
+  // Memory databases can't open a WAL database file, mark the copy as a rollback journal one
+  if (bytes[WRITE_VERSION] === 2 || bytes[READ_VERSION] === 2) {
+    snapshot = bytes.slice();
+    snapshot[WRITE_VERSION] = 1;
+    snapshot[READ_VERSION] = 1;
+  }
+  try {
+    return Database.deserialize(snapshot, { safeIntegers: true, readonly });
+  } catch (e) {
+    throw genericError(`Failed to open database snapshot: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * Creates the database file `filename` with the contents `bytes`. A file
+ * created in the meantime is left alone.
+ */
+export function writeSnapshot(filename: string, bytes: Uint8Array): void {
+  try {
+    writeFileSync(filename, bytes, { flag: 'wx' });
+  } catch (e) {
+    if ((e as { code?: string }).code === 'EEXIST') {
+      return;
+    }
+    throw genericError(`Failed to create ${filename} from its source: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  debug("Created %s from a %d byte snapshot", filename, bytes.length);
+}
+
+// A template in WAL mode keeps recent commits in its -wal file, serializing includes them
+function readTemplate(path: string): Uint8Array {
+  let template: Database;
+  try {
+    template = new Database(path, { readonly: true });
+  } catch (e) {
+    throw genericError(`Failed to open template database ${path}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  try {
+    return template.serialize();
+  } catch (e) {
+    throw genericError(`Failed to read template database ${path}: ${e instanceof Error ? e.message : String(e)}`);
+  } finally {
+    template.close();
+  }
+}
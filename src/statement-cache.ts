@@ -0,0 +1,94 @@
+import { Debug } from "@prisma/driver-adapter-utils";
+import type { Database, Statement } from "bun:sqlite";
+
+import { genericError } from "./errors";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:statement-cache");
+
+export const DEFAULT_STATEMENT_CACHE_SIZE = 100;
+
+export type StatementCacheStats = {
+  /** Number of prepared statements currently cached. */
+  size: number;
+  /** Maximum number of prepared statements kept before evicting. */
+  capacity: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+};
+
+/**
+ * LRU cache of prepared statements for a single connection.
+ *
+ * Statements are finalized when they are evicted and when the cache is
+ * cleared. A capacity of 0 disables caching: every statement is prepared for
+ * a single use and finalized right after it.
+ */
+export class StatementCache {
+  // Map iteration order is insertion order, the first entry is the least recently used
+  private readonly statements = new Map<string, Statement>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly db: Database,
+    readonly capacity: number = DEFAULT_STATEMENT_CACHE_SIZE,
+  ) {
+    if (!Number.isInteger(capacity) || capacity < 0) {
+      throw genericError(`Statement cache size must be a non-negative integer, got ${capacity}`);
+    }
+  }
+
+  use<T>(sql: string, fn: (stmt: Statement) => T): T {
+    const cached = this.statements.get(sql);
+    if (cached !== undefined) {
+      this.hits++;
+      this.statements.delete(sql);
+      this.statements.set(sql, cached);
+      return fn(cached);
+    }
+
+    this.misses++;
+    const stmt = this.db.prepare(sql);
+
+    if (this.capacity === 0) {
+      try {
+        return fn(stmt);
+      } finally {
+        stmt.finalize();
+      }
+    }
+
+    this.statements.set(sql, stmt);
+    this.evict();
+    return fn(stmt);
+  }
+
+  stats(): StatementCacheStats {
+    return {
+      size: this.statements.size,
+      capacity: this.capacity,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  clear(): void {
+    for (const stmt of this.statements.values()) {
+      stmt.finalize();
+    }
+    this.statements.clear();
+  }
+
+  private evict(): void {
+    while (this.statements.size > this.capacity) {
+      const [sql, stmt] = this.statements.entries().next().value!;
+      debug("Evicting statement: %s", sql.substring(0, 50));
+      this.statements.delete(sql);
+      stmt.finalize();
+      this.evictions++;
+    }
+  }
+}
@@ -0,0 +1,439 @@
+export type SqlStatement = {
+  /** Statement text without the terminating semicolon. */
+  sql: string;
+  /** Offset of the first character of the statement in the source script. */
+  start: number;
+  /** Offset one past the last character of the statement in the source script. */
+  end: number;
+};
+
+/**
+ * A table reference, `schema` is null unless the statement qualifies it.
+ */
+export type TableName = {
+  schema: string | null;
+  name: string;
+};
+
+type Token = {
+  /**
+   * `word` is a bare keyword or identifier, `identifier` a quoted identifier
+   * (with quotes removed from `value`), `string` a string literal.
+   */
+  kind: "word" | "identifier" | "string" | "semi" | "other";
+  value: string;
+  start: number;
+  end: number;
+};
+
+// Mirrors the trigger handling of sqlite3_complete(): inside a CREATE TRIGGER
+// statement a semicolon only terminates the statement when it directly follows
+// an `END` keyword that itself started a new statement of the trigger body.
+type TriggerState = "none" | "body" | "semi" | "end";
+
+/**
+ * Splits an SQL script into complete statements the way SQLite would see them.
+ *
+ * Semicolons inside string literals, quoted identifiers, comments and
+ * `CREATE TRIGGER ... BEGIN ... END` bodies do not split statements, and
+ * chunks that consist only of whitespace and comments are dropped.
+ */
+export function splitStatements(script: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+
+  let start = -1;
+  let end = -1;
+  let leading: string[] = [];
+  let scanningPrefix = true;
+  let trigger: TriggerState = "none";
+
+  const flush = () => {
+    if (start !== -1) {
+      statements.push({ sql: script.slice(start, end), start, end });
+    }
+    start = -1;
+    end = -1;
+    leading = [];
+    scanningPrefix = true;
+    trigger = "none";
+  };
+
+  for (const token of tokenize(script)) {
+    if (token.kind === "semi") {
+      if (trigger === "none" || trigger === "end") {
+        flush();
+      } else {
+        trigger = "semi";
+      }
+      continue;
+    }
+
+    if (start === -1) {
+      start = token.start;
+    }
+    end = token.end;
+
+    const word = keyword(token);
+
+    if (trigger === "none") {
+      // Recognise `[EXPLAIN [QUERY PLAN]] CREATE [TEMP|TEMPORARY] TRIGGER`
+      if (scanningPrefix && word !== null && leading.length < 6) {
+        leading.push(word);
+        if (word === "TRIGGER") {
+          scanningPrefix = false;
+          if (isTriggerPrefix(leading)) {
+            trigger = "body";
+          }
+        }
+      } else {
+        scanningPrefix = false;
+      }
+    } else if (trigger === "semi") {
+      trigger = word === "END" ? "end" : "body";
+    } else if (trigger === "end") {
+      trigger = "body";
+    }
+  }
+
+  flush();
+  return statements;
+}
+
+/**
+ * Returns the table targeted by an `INSERT`, `REPLACE`, `UPDATE` or `DELETE`
+ * statement with a `RETURNING` clause, or null for any other statement.
+ */
+export function getReturningTable(sql: string): TableName | null {
+  const tokens = Array.from(tokenize(sql));
+
+  let depth = 0;
+  let verb: string | null = null;
+  let table: TableName | null = null;
+  let returning = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === "semi") {
+      break;
+    }
+    if (token.value === "(") {
+      depth++;
+      continue;
+    }
+    if (token.value === ")") {
+      depth--;
+      continue;
+    }
+    if (depth > 0) {
+      continue;
+    }
+
+    const word = keyword(token);
+    if (verb === null) {
+      // Skip a leading `WITH ...` clause, CTE bodies are parenthesised
+      if (word === "INSERT" || word === "REPLACE" || word === "UPDATE" || word === "DELETE") {
+        verb = word;
+        table = readTableName(tokens, targetIndex(tokens, i + 1, word));
+      } else if (word === "SELECT" || word === "VALUES") {
+        return null;
+      }
+    } else if (word === "RETURNING") {
+      returning = true;
+      break;
+    }
+  }
+
+  return returning ? table : null;
+}
+
+/**
+ * Returns the table following the first `FROM` of a statement, or null when
+ * it has none or selects from a subquery.
+ */
+export function getFromTable(sql: string): TableName | null {
+  const tokens = Array.from(tokenize(sql));
+  const from = tokens.findIndex((token) => keyword(token) === "FROM");
+  return from === -1 ? null : readTableName(tokens, from + 1);
+}
+
+/**
+ * Returns the lower-cased words and quoted identifiers of a statement, which
+ * include the names of every schema and table it references.
+ */
+export function getNames(sql: string): Set<string> {
+  const names = new Set<string>();
+  for (const token of tokenize(sql)) {
+    if (token.kind === "word" || token.kind === "identifier") {
+      names.add(token.value.toLowerCase());
+    }
+  }
+  return names;
+}
+
+/**
+ * Quotes an identifier for use in SQL, for names that can't be bound as
+ * parameters such as schema and table names in PRAGMA statements.
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Whether the statement changes the schema (`CREATE`, `ALTER` or `DROP`).
+ */
+export function isSchemaChange(sql: string): boolean {
+  for (const token of tokenize(sql)) {
+    const word = keyword(token);
+    return word === "CREATE" || word === "ALTER" || word === "DROP";
+  }
+  return false;
+}
+
+/**
+ * Whether the statement is a single plain query: `SELECT`, `VALUES` or a
+ * `WITH` clause followed by either. Data-modifying statements, pragmas and
+ * scripts are not.
+ */
+export function isReadOnlyQuery(sql: string): boolean {
+  let depth = 0;
+  let first = true;
+  let verb: string | null = null;
+  let terminated = false;
+
+  for (const token of tokenize(sql)) {
+    if (terminated) {
+      // A second statement follows
+      return false;
+    }
+    if (token.kind === "semi") {
+      terminated = true;
+      continue;
+    }
+    if (verb !== null) {
+      continue;
+    }
+    if (token.value === "(") {
+      depth++;
+      continue;
+    }
+    if (token.value === ")") {
+      depth--;
+      continue;
+    }
+    if (depth > 0) {
+      continue;
+    }
+
+    const word = keyword(token);
+    if (first && word !== "WITH" && word !== "SELECT" && word !== "VALUES") {
+      return false;
+    }
+    first = false;
+    // The main statement after the CTE definitions decides
+    if (word === "SELECT" || word === "VALUES" || word === "INSERT" || word === "REPLACE" || word === "UPDATE" || word === "DELETE") {
+      verb = word;
+    }
+  }
+
+  return verb === "SELECT" || verb === "VALUES";
+}
+
+export type TransactionControl =
+  | { kind: "begin" }
+  | { kind: "commit" }
+  | { kind: "rollback" }
+  | { kind: "savepoint"; name: string }
+  | { kind: "release"; name: string }
+  | { kind: "rollbackTo"; name: string };
+
+/**
+ * Recognises a single transaction control statement: `BEGIN`, `COMMIT`/`END`,
+ * `ROLLBACK`, `SAVEPOINT name`, `RELEASE [SAVEPOINT] name` and
+ * `ROLLBACK [TRANSACTION] TO [SAVEPOINT] name`. Returns null for anything else.
+ */
+export function parseTransactionControl(sql: string): TransactionControl | null {
+  const tokens = Array.from(tokenize(sql));
+  // Allow a single trailing semicolon
+  if (tokens.at(-1)?.kind === "semi") {
+    tokens.pop();
+  }
+
+  let i = 0;
+  const next = (...words: string[]) => {
+    const word = keyword(tokens[i]);
+    if (word !== null && words.includes(word)) {
+      i++;
+      return true;
+    }
+    return false;
+  };
+  const name = () => {
+    const token = tokens[i];
+    if (token?.kind === "word" || token?.kind === "identifier") {
+      i++;
+      return token.value;
+    }
+    return null;
+  };
+  const done = <T extends TransactionControl>(control: T) => (i === tokens.length ? control : null);
+
+  if (next("BEGIN")) {
+    next("DEFERRED", "IMMEDIATE", "EXCLUSIVE");
+    next("TRANSACTION");
+    return done({ kind: "begin" });
+  }
+  if (next("COMMIT", "END")) {
+    next("TRANSACTION");
+    return done({ kind: "commit" });
+  }
+  if (next("ROLLBACK")) {
+    next("TRANSACTION");
+    if (i === tokens.length) {
+      return { kind: "rollback" };
+    }
+    if (!next("TO")) {
+      return null;
+    }
+    next("SAVEPOINT");
+    const savepoint = name();
+    return savepoint === null ? null : done({ kind: "rollbackTo", name: savepoint });
+  }
+  if (next("SAVEPOINT")) {
+    const savepoint = name();
+    return savepoint === null ? null : done({ kind: "savepoint", name: savepoint });
+  }
+  if (next("RELEASE")) {
+    next("SAVEPOINT");
+    const savepoint = name();
+    return savepoint === null ? null : done({ kind: "release", name: savepoint });
+  }
+  return null;
+}
+
+function targetIndex(tokens: Token[], i: number, verb: string): number {
+  if (verb === "UPDATE") {
+    // UPDATE [OR conflict] table
+    return keyword(tokens[i]) === "OR" ? i + 2 : i;
+  }
+  // INSERT [OR conflict] INTO table, REPLACE INTO table, DELETE FROM table
+  const marker = verb === "DELETE" ? "FROM" : "INTO";
+  while (i < tokens.length && keyword(tokens[i]) !== marker) {
+    i++;
+  }
+  return i + 1;
+}
+
+function readTableName(tokens: Token[], i: number): TableName | null {
+  const name = tokens[i];
+  if (name === undefined || (name.kind !== "word" && name.kind !== "identifier")) {
+    return null;
+  }
+  // schema.table
+  if (tokens[i + 1]?.value === "." && (tokens[i + 2]?.kind === "word" || tokens[i + 2]?.kind === "identifier")) {
+    return { schema: name.value, name: tokens[i + 2].value };
+  }
+  return { schema: null, name: name.value };
+}
+
+function keyword(token: Token | undefined): string | null {
+  return token?.kind === "word" ? token.value.toUpperCase() : null;
+}
+
+function isTriggerPrefix(words: string[]): boolean {
+  let i = 0;
+  if (words[i] === "EXPLAIN") {
+    i++;
+    if (words[i] === "QUERY" && words[i + 1] === "PLAN") {
+      i += 2;
+    }
+  }
+  if (words[i++] !== "CREATE") {
+    return false;
+  }
+  if (words[i] === "TEMP" || words[i] === "TEMPORARY") {
+    i++;
+  }
+  return words[i] === "TRIGGER" && i === words.length - 1;
+}
+
+function* tokenize(sql: string): Generator<Token> {
+  const length = sql.length;
+  let i = 0;
+
+  while (i < length) {
+    const ch = sql[i];
+    const start = i;
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // -- line comment
+    if (ch === "-" && sql[i + 1] === "-") {
+      const newline = sql.indexOf("\n", i + 2);
+      i = newline === -1 ? length : newline + 1;
+      continue;
+    }
+
+    // /* block comment */ (an unterminated comment runs to the end of input)
+    if (ch === "/" && sql[i + 1] === "*") {
+      const close = sql.indexOf("*/", i + 2);
+      i = close === -1 ? length : close + 2;
+      continue;
+    }
+
+    if (ch === ";") {
+      i++;
+      yield { kind: "semi", value: ch, start, end: i };
+      continue;
+    }
+
+    // 'string', "identifier", `identifier` - quotes are escaped by doubling
+    if (ch === "'" || ch === '"' || ch === "`") {
+      i = skipQuoted(sql, i, ch);
+      const value = sql.slice(start + 1, sql[i - 1] === ch ? i - 1 : i).replaceAll(ch + ch, ch);
+      yield { kind: ch === "'" ? "string" : "identifier", value, start, end: i };
+      continue;
+    }
+
+    // [identifier] - MS Access / SQL Server style quoting, no escapes
+    if (ch === "[") {
+      const close = sql.indexOf("]", i + 1);
+      i = close === -1 ? length : close + 1;
+      yield { kind: "identifier", value: sql.slice(start + 1, close === -1 ? length : close), start, end: i };
+      continue;
+    }
+
+    if (isWordChar(ch)) {
+      while (i < length && isWordChar(sql[i])) {
+        i++;
+      }
+      yield { kind: "word", value: sql.slice(start, i), start, end: i };
+      continue;
+    }
+
+    i++;
+    yield { kind: "other", value: ch, start, end: i };
+  }
+}
+
+function skipQuoted(sql: string, open: number, quote: string): number {
+  let i = open + 1;
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+function isWordChar(ch: string): boolean {
+  return /[\w$]/.test(ch) || ch.charCodeAt(0) > 0x7f;
+}
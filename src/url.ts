@@ -0,0 +1,187 @@
+import { Debug } from "@prisma/driver-adapter-utils";
+
+import { genericError } from "./errors";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:url");
+
+/**
+ * Where and how to open a database, as described by a factory URL.
+ */
+export type DatabaseLocation = {
+  /** Path handed to bun:sqlite, `:memory:` for in-memory databases. */
+  filename: string;
+  /** Open the database read-only. */
+  readonly: boolean;
+  /** Create the database file when it doesn't exist. */
+  create: boolean;
+  /** Busy timeout in milliseconds, from Prisma's `socket_timeout`. */
+  busyTimeout?: number;
+  /** Adapter options set through Prisma connection parameters. */
+  options: {
+    readPoolSize?: number;
+    transactionAcquireTimeout?: number;
+    statementCacheSize?: number;
+  };
+};
+
+// SQLite URI parameters that need SQLITE_OPEN_URI, which bun:sqlite can't combine with safeIntegers
+const UNSUPPORTED_PARAMETERS = ['vfs', 'nolock', 'psow', 'modeof'];
+
+const PARAMETERS = [
+  'mode',
+  'cache',
+  'immutable',
+  'connection_limit',
+  'socket_timeout',
+  'pool_timeout',
+  'statement_cache_size',
+];
+
+/**
+ * Parses a factory URL. Plain paths and `:memory:` are used as they are,
+ * `file:` URLs follow SQLite's URI rules and may carry SQLite and Prisma
+ * connection parameters. Unknown parameters are rejected.
+ */
+export function parseDatabaseUrl(url: string): DatabaseLocation {
+  if (!url.startsWith('file:')) {
+    return { filename: url, readonly: false, create: true, options: {} };
+  }
+
+  // SQLite ignores the fragment
+  const [uri] = url.slice('file:'.length).split('#', 1);
+  const queryStart = uri.indexOf('?');
+  const path = queryStart === -1 ? uri : uri.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : uri.slice(queryStart + 1);
+
+  const location: DatabaseLocation = {
+    filename: decode(parsePath(path)),
+    readonly: false,
+    create: true,
+    options: {},
+  };
+
+  for (const pair of query.split('&')) {
+    if (pair === '') {
+      continue;
+    }
+    const separator = pair.indexOf('=');
+    const key = decode(separator === -1 ? pair : pair.slice(0, separator));
+    const value = decode(separator === -1 ? '' : pair.slice(separator + 1));
+    applyParameter(location, key, value);
+  }
+
+  return location;
+}
+
+function parsePath(path: string): string {
+  if (!path.startsWith('//')) {
+    return path;
+  }
+  // file:///abs and file://localhost/abs are absolute, file://name.db is
+  // relative like Prisma's file:./name.db
+  const rest = path.slice(2);
+  return rest.startsWith('localhost/') ? rest.slice('localhost'.length) : rest;
+}
+
+function applyParameter(location: DatabaseLocation, key: string, value: string): void {
+  switch (key) {
+    case 'mode':
+      switch (value) {
+        case 'ro':
+          location.readonly = true;
+          location.create = false;
+          return;
+        case 'rw':
+          location.readonly = false;
+          location.create = false;
+          return;
+        case 'rwc':
+          location.readonly = false;
+          location.create = true;
+          return;
+        case 'memory':
+          location.filename = ':memory:';
+          return;
+        default:
+          throw invalidParameter(key, value, 'ro, rw, rwc or memory');
+      }
+    case 'cache':
+      if (value !== 'shared' && value !== 'private') {
+        throw invalidParameter(key, value, 'shared or private');
+      }
+      // The adapter owns its connections and serializes access to the writer
+      debug("Ignoring cache=%s, connections always use a private cache", value);
+      return;
+    case 'immutable':
+      // Immutable databases are never written, bun:sqlite can only make them read-only
+      if (parseBoolean(key, value)) {
+        location.readonly = true;
+        location.create = false;
+      }
+      return;
+    case 'connection_limit':
+      // Prisma counts the writer as a connection, the rest become readers
+      location.options.readPoolSize = parseInteger(key, value, 1) - 1;
+      return;
+    case 'socket_timeout':
+      location.busyTimeout = parseSeconds(key, value);
+      return;
+    case 'pool_timeout':
+      location.options.transactionAcquireTimeout = parseSeconds(key, value);
+      return;
+    case 'statement_cache_size':
+      location.options.statementCacheSize = parseInteger(key, value, 0);
+      return;
+    default:
+      if (UNSUPPORTED_PARAMETERS.includes(key)) {
+        throw genericError(`Database URL parameter ${key} is not supported by bun:sqlite`);
+      }
+      throw genericError(`Unknown database URL parameter: ${key}. Expected one of ${PARAMETERS.join(', ')}`);
+  }
+}
+
+function parseBoolean(key: string, value: string): boolean {
+  switch (value.toLowerCase()) {
+    case '1':
+    case 'true':
+    case 'yes':
+    case 'on':
+      return true;
+    case '0':
+    case 'false':
+    case 'no':
+    case 'off':
+      return false;
+    default:
+      throw invalidParameter(key, value, 'a boolean');
+  }
+}
+
+function parseInteger(key: string, value: string, min: number): number {
+  const parsed = Number(value);
+  if (value === '' || !Number.isInteger(parsed) || parsed < min) {
+    throw invalidParameter(key, value, `an integer of at least ${min}`);
+  }
+  return parsed;
+}
+
+// Prisma timeouts are given in seconds, the adapter works in milliseconds
+function parseSeconds(key: string, value: string): number {
+  const parsed = Number(value);
+  if (value === '' || !Number.isFinite(parsed) || parsed < 0) {
+    throw invalidParameter(key, value, 'a non-negative number of seconds');
+  }
+  return Math.round(parsed * 1000);
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw genericError(`Invalid percent-encoding in database URL: ${value}`);
+  }
+}
+
+function invalidParameter(key: string, value: string, expected: string) {
+  return genericError(`Invalid database URL parameter ${key}=${value}. Expected ${expected}`);
+}
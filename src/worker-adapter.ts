@@ -0,0 +1,293 @@
+import type {
+  IsolationLevel,
+  SqlQuery,
+  SqlResultSet,
+} from "@prisma/driver-adapter-utils";
+import { Debug } from "@prisma/driver-adapter-utils";
+
+import { name as packageName } from '../package.json'
+import type {
+  BunSQLiteDriverAdapter,
+  BunSQLiteTransactionOptions,
+  NestableTransaction,
+  QueryStreamOptions,
+  TransactionMode,
+} from "./adapter";
+import type { BackupOptions } from "./backup";
+import type { QueryOptions } from "./cancellation";
+import type { CheckpointMode, CheckpointPolicy, CheckpointResult } from "./checkpoint";
+import { genericError } from "./errors";
+import type { BusyRetryStats } from "./retry";
+import type { StatementCacheStats } from "./statement-cache";
+import {
+  ADAPTER_TARGET,
+  deserializeError,
+  WorkerMethod,
+  WorkerQueryOptions,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTransactionHandle,
+} from "./worker-protocol";
+
+const debug = Debug("prisma:driver-adapter:bun-sqlite:worker");
+
+type PendingRequest = {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+};
+
+// Request/response channel to the worker thread
+class WorkerChannel {
+  private readonly pending = new Map<number, PendingRequest>();
+  private requestCounter = 0;
+  private failure: Error | null = null;
+
+  constructor(private readonly worker: Worker) {
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.settle(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      this.fail(genericError(`SQLite worker failed: ${event.message}`));
+    };
+    worker.addEventListener("close", () => {
+      this.fail(genericError("SQLite worker has been terminated"));
+    });
+    // An idle adapter must not keep the process alive, requests ref the worker while pending
+    worker.unref();
+  }
+
+  call<T>(method: WorkerMethod, args: unknown[] = [], target = ADAPTER_TARGET): Promise<T> {
+    if (this.failure !== null) {
+      return Promise.reject(this.failure);
+    }
+
+    const id = ++this.requestCounter;
+    return new Promise<T>((resolve, reject) => {
+      if (this.pending.size === 0) {
+        this.worker.ref();
+      }
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ id, method, target, args } satisfies WorkerRequest);
+    });
+  }
+
+  terminate(): void {
+    this.fail(genericError("Adapter has been disposed"));
+    this.worker.terminate();
+  }
+
+  private settle(response: WorkerResponse): void {
+    const request = this.pending.get(response.id);
+    if (request === undefined) {
+      return;
+    }
+    this.forget(response.id);
+
+    if ("error" in response) {
+      request.reject(deserializeError(response.error));
+    } else {
+      request.resolve(response.result);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure !== null) {
+      return;
+    }
+    debug("Worker channel closed: %O", error);
+    this.failure = error;
+    for (const [id, request] of this.pending) {
+      this.forget(id);
+      request.reject(error);
+    }
+  }
+
+  private forget(id: number): void {
+    this.pending.delete(id);
+    if (this.pending.size === 0) {
+      this.worker.unref();
+    }
+  }
+}
+
+type MirroredOptions = {
+  options: WorkerQueryOptions | undefined;
+  dispose: () => void;
+};
+
+// Mirrors the AbortSignal into a shared flag until disposed
+function mirrorQueryOptions(options: QueryStreamOptions | undefined): MirroredOptions {
+  if (options?.signal === undefined) {
+    return { options, dispose: () => { } };
+  }
+
+  const { signal, ...rest } = options;
+  const abortFlag = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+  const onAbort = () => Atomics.store(abortFlag, 0, 1);
+  if (signal.aborted) {
+    onAbort();
+  } else {
+    signal.addEventListener("abort", onAbort, { once: true });
+  }
+  return {
+    options: { ...rest, abortFlag },
+    dispose: () => signal.removeEventListener("abort", onAbort),
+  };
+}
+
+async function withQueryOptions<T>(
+  options: QueryOptions | undefined,
+  fn: (options: WorkerQueryOptions | undefined) => Promise<T>,
+): Promise<T> {
+  const mirrored = mirrorQueryOptions(options);
+  try {
+    return await fn(mirrored.options);
+  } finally {
+    mirrored.dispose();
+  }
+}
+
+async function* streamFromWorker(
+  channel: WorkerChannel,
+  target: number,
+  query: SqlQuery,
+  options: QueryStreamOptions | undefined,
+): AsyncGenerator<SqlResultSet, void, undefined> {
+  const mirrored = mirrorQueryOptions(options);
+  try {
+    const stream = await channel.call<number>("openStream", [query, mirrored.options], target);
+    try {
+      while (true) {
+        const batch = await channel.call<SqlResultSet | null>("nextBatch", [stream]);
+        if (batch === null) {
+          return;
+        }
+        yield batch;
+      }
+    } finally {
+      // Releases the statement and the lock held for the stream in the worker
+      await channel.call("closeStream", [stream]).catch((e) => debug("Failed to close stream: %O", e));
+    }
+  } finally {
+    mirrored.dispose();
+  }
+}
+
+// Proxy of a transaction or savepoint living in the worker
+class BunSQLiteWorkerTransaction implements NestableTransaction {
+  readonly provider = "sqlite";
+  readonly adapterName = packageName;
+
+  constructor(
+    private readonly channel: WorkerChannel,
+    private readonly id: number,
+    readonly options: BunSQLiteTransactionOptions,
+  ) { }
+
+  queryRaw(query: SqlQuery, options?: QueryOptions): Promise<SqlResultSet> {
+    return withQueryOptions(options, (options) => this.channel.call("queryRaw", [query, options], this.id));
+  }
+
+  executeRaw(query: SqlQuery, options?: QueryOptions): Promise<number> {
+    return withQueryOptions(options, (options) => this.channel.call("executeRaw", [query, options], this.id));
+  }
+
+  queryStream(query: SqlQuery, options?: QueryStreamOptions): AsyncGenerator<SqlResultSet, void, undefined> {
+    return streamFromWorker(this.channel, this.id, query, options);
+  }
+
+  async startNestedTransaction(): Promise<NestableTransaction> {
+    const handle = await this.channel.call<WorkerTransactionHandle>("startNestedTransaction", [], this.id);
+    return new BunSQLiteWorkerTransaction(this.channel, handle.id, handle.options as BunSQLiteTransactionOptions);
+  }
+
+  commit(): Promise<void> {
+    return this.channel.call("commit", [], this.id);
+  }
+
+  rollback(): Promise<void> {
+    return this.channel.call("rollback", [], this.id);
+  }
+}
+
+/**
+ * Adapter that runs every SQLite call on a dedicated worker thread, so slow
+ * queries don't block the event loop. Queries, results and errors are
+ * copied between threads; locking, transactions and error mapping are those
+ * of the in-process adapter running inside the worker.
+ */
+export class PrismaBunSQLiteWorkerAdapter implements BunSQLiteDriverAdapter {
+  readonly provider = "sqlite";
+  readonly adapterName = packageName;
+
+  private constructor(private readonly channel: WorkerChannel) { }
+
+  /**
+   * Starts a worker and opens the database described by `params` in it.
+   */
+  static async open(params: object, shadow = false): Promise<PrismaBunSQLiteWorkerAdapter> {
+    const channel = new WorkerChannel(new Worker(require.resolve("./worker")));
+    try {
+      await channel.call("open", [params, shadow]);
+    } catch (e) {
+      channel.terminate();
+      throw e;
+    }
+    debug("Opened database on worker thread");
+    return new PrismaBunSQLiteWorkerAdapter(channel);
+  }
+
+  queryRaw(query: SqlQuery, options?: QueryOptions): Promise<SqlResultSet> {
+    return withQueryOptions(options, (options) => this.channel.call("queryRaw", [query, options]));
+  }
+
+  executeRaw(query: SqlQuery, options?: QueryOptions): Promise<number> {
+    return withQueryOptions(options, (options) => this.channel.call("executeRaw", [query, options]));
+  }
+
+  queryStream(query: SqlQuery, options?: QueryStreamOptions): AsyncGenerator<SqlResultSet, void, undefined> {
+    return streamFromWorker(this.channel, ADAPTER_TARGET, query, options);
+  }
+
+  executeScript(script: string): Promise<void> {
+    return this.channel.call("executeScript", [script]);
+  }
+
+  async startTransaction(
+    isolationLevel?: IsolationLevel,
+    options: { mode?: TransactionMode; timeout?: number } = {},
+  ): Promise<NestableTransaction> {
+    const handle = await this.channel.call<WorkerTransactionHandle>("startTransaction", [isolationLevel, options]);
+    return new BunSQLiteWorkerTransaction(this.channel, handle.id, handle.options as BunSQLiteTransactionOptions);
+  }
+
+  getStatementCacheStats(): Promise<StatementCacheStats> {
+    return this.channel.call("getStatementCacheStats");
+  }
+
+  getBusyRetryStats(): Promise<BusyRetryStats> {
+    return this.channel.call("getBusyRetryStats");
+  }
+
+  checkpoint(mode?: CheckpointMode): Promise<CheckpointResult> {
+    return this.channel.call("checkpoint", [mode]);
+  }
+
+  scheduleCheckpoints(policy: CheckpointPolicy): Promise<void> {
+    return this.channel.call("scheduleCheckpoints", [policy]);
+  }
+
+  backup(targetPath: string, options?: BackupOptions): Promise<void> {
+    return this.channel.call("backup", [targetPath, options]);
+  }
+
+  serialize(schema?: string): Promise<Uint8Array> {
+    return this.channel.call("serialize", [schema]);
+  }
+
+  async dispose(): Promise<void> {
+    try {
+      await this.channel.call("dispose");
+    } finally {
+      this.channel.terminate();
+    }
+  }
+}
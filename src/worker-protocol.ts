@@ -0,0 +1,82 @@
+import { DriverAdapterError, Error as DriverAdapterErrorObject } from "@prisma/driver-adapter-utils";
+
+/** Target id of the adapter itself, transactions get ids counting up from 1. */
+export const ADAPTER_TARGET = 0;
+
+export type WorkerMethod =
+  | "open"
+  | "queryRaw"
+  | "executeRaw"
+  | "executeScript"
+  | "openStream"
+  | "nextBatch"
+  | "closeStream"
+  | "startTransaction"
+  | "startNestedTransaction"
+  | "commit"
+  | "rollback"
+  | "getStatementCacheStats"
+  | "getBusyRetryStats"
+  | "checkpoint"
+  | "scheduleCheckpoints"
+  | "backup"
+  | "serialize"
+  | "dispose";
+
+export type WorkerRequest = {
+  id: number;
+  method: WorkerMethod;
+  target: number;
+  args: unknown[];
+};
+
+export type WorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: SerializedError };
+
+/**
+ * `QueryStreamOptions` as sent to the worker. An AbortSignal cannot cross
+ * threads, it is mirrored into a shared flag the worker reads while it is
+ * blocked in a statement.
+ */
+export type WorkerQueryOptions = {
+  timeout?: number;
+  batchSize?: number;
+  abortFlag?: Int32Array;
+};
+
+/** Reply to `startTransaction` and `startNestedTransaction`. */
+export type WorkerTransactionHandle = {
+  id: number;
+  options: unknown;
+};
+
+// Errors lose their class when they are cloned across threads
+type SerializedError =
+  | { kind: "driver"; cause: DriverAdapterErrorObject }
+  | { kind: "error"; name: string; message: string; code?: string };
+
+export function serializeError(error: any): SerializedError {
+  if (error instanceof DriverAdapterError) {
+    return { kind: "driver", cause: error.cause };
+  }
+  return {
+    kind: "error",
+    name: error?.name ?? "Error",
+    message: error?.message ?? String(error),
+    code: typeof error?.code === "string" ? error.code : undefined,
+  };
+}
+
+export function deserializeError(error: SerializedError): Error {
+  if (error.kind === "driver") {
+    return new DriverAdapterError(error.cause);
+  }
+  const ErrorClass = error.name === "RangeError" ? RangeError : error.name === "TypeError" ? TypeError : Error;
+  const result = new ErrorClass(error.message);
+  result.name = error.name;
+  if (error.code !== undefined) {
+    Object.assign(result, { code: error.code });
+  }
+  return result;
+}
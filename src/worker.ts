@@ -0,0 +1,198 @@
+// Worker thread entry point of the worker mode, owns the Database and runs an
+// in-process adapter on it. Requests come from PrismaBunSQLiteWorkerAdapter.
+import type { SqlQuery, SqlResultSet } from "@prisma/driver-adapter-utils";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+
+import {
+  NestableTransaction,
+  PrismaBunSQLiteAdapter,
+  PrismaBunSQLiteAdapterFactory,
+  QueryStreamOptions,
+} from "./adapter";
+import type { BackupOptions } from "./backup";
+import { sharedAbortSignal } from "./cancellation";
+import type { CheckpointMode, CheckpointPolicy } from "./checkpoint";
+import {
+  ADAPTER_TARGET,
+  serializeError,
+  WorkerQueryOptions,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTransactionHandle,
+} from "./worker-protocol";
+
+declare var self: Worker;
+
+type TransactionEntry = {
+  transaction: NestableTransaction;
+  // Id of the outermost transaction, nested transactions end with it
+  root: number;
+};
+
+let adapter: PrismaBunSQLiteAdapter | null = null;
+const transactions = new Map<number, TransactionEntry>();
+let transactionCounter = 0;
+const streams = new Map<number, AsyncGenerator<SqlResultSet, void, undefined>>();
+let streamCounter = 0;
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id } = event.data;
+  let response: WorkerResponse;
+  try {
+    response = { id, result: await handle(event.data) };
+  } catch (e) {
+    response = { id, error: serializeError(e) };
+  }
+  self.postMessage(response);
+};
+
+async function handle({ method, target, args }: WorkerRequest): Promise<unknown> {
+  if (method === "open") {
+    const [params, shadow] = args as [ConstructorParameters<typeof PrismaBunSQLiteAdapterFactory>[0], boolean];
+    const factory = new PrismaBunSQLiteAdapterFactory(params);
+    adapter = (await (shadow ? factory.connectToShadowDb() : factory.connect())) as PrismaBunSQLiteAdapter;
+    return null;
+  }
+  if (adapter === null) {
+    throw new Error("Worker received a request before the database was opened");
+  }
+
+  if (target !== ADAPTER_TARGET) {
+    return handleTransaction(method, target, args);
+  }
+
+  switch (method) {
+    case "queryRaw":
+      return adapter.queryRaw(args[0] as SqlQuery, toQueryOptions(args[1] as WorkerQueryOptions | undefined));
+    case "executeRaw":
+      return adapter.executeRaw(args[0] as SqlQuery, toQueryOptions(args[1] as WorkerQueryOptions | undefined));
+    case "executeScript":
+      return adapter.executeScript(args[0] as string);
+    case "openStream":
+      return openStream(adapter.queryStream(args[0] as SqlQuery, toQueryOptions(args[1] as WorkerQueryOptions | undefined)));
+    case "nextBatch":
+      return nextBatch(args[0] as number);
+    case "closeStream":
+      return closeStream(args[0] as number);
+    case "startTransaction": {
+      const transaction = await adapter.startTransaction(...(args as Parameters<PrismaBunSQLiteAdapter["startTransaction"]>));
+      const id = ++transactionCounter;
+      transactions.set(id, { transaction, root: id });
+      return { id, options: transaction.options } satisfies WorkerTransactionHandle;
+    }
+    case "getStatementCacheStats":
+      return adapter.getStatementCacheStats();
+    case "getBusyRetryStats":
+      return adapter.getBusyRetryStats();
+    case "checkpoint":
+      return adapter.checkpoint(args[0] as CheckpointMode | undefined);
+    case "scheduleCheckpoints":
+      return adapter.scheduleCheckpoints(args[0] as CheckpointPolicy);
+    case "backup":
+      return adapter.backup(args[0] as string, args[1] as BackupOptions | undefined);
+    case "serialize":
+      return adapter.serialize(args[0] as string | undefined);
+    case "dispose":
+      for (const id of Array.from(streams.keys())) {
+        await closeStream(id);
+      }
+      // Transactions stay reachable until dispose, so they can still finish
+      await adapter.dispose();
+      transactions.clear();
+      return undefined;
+    default:
+      throw new Error(`Unsupported worker request: ${method}`);
+  }
+}
+
+async function handleTransaction(method: WorkerRequest["method"], target: number, args: unknown[]): Promise<unknown> {
+  const entry = transactions.get(target);
+
+  // Entries are dropped once the transaction ended, behave like a closed transaction
+  if (entry === undefined) {
+    if (method === "commit" || method === "rollback") {
+      return undefined;
+    }
+    throw new DriverAdapterError({
+      kind: "TransactionAlreadyClosed",
+      cause: "Cannot execute query on a closed transaction.",
+    });
+  }
+
+  const { transaction, root } = entry;
+  switch (method) {
+    case "queryRaw":
+      return transaction.queryRaw(args[0] as SqlQuery, toQueryOptions(args[1] as WorkerQueryOptions | undefined));
+    case "executeRaw":
+      return transaction.executeRaw(args[0] as SqlQuery, toQueryOptions(args[1] as WorkerQueryOptions | undefined));
+    case "openStream":
+      return openStream(transaction.queryStream(args[0] as SqlQuery, toQueryOptions(args[1] as WorkerQueryOptions | undefined)));
+    case "startNestedTransaction": {
+      const nested = await transaction.startNestedTransaction();
+      const id = ++transactionCounter;
+      transactions.set(id, { transaction: nested, root });
+      return { id, options: nested.options } satisfies WorkerTransactionHandle;
+    }
+    case "commit":
+    case "rollback":
+      // A failed commit or rollback ends the transaction too
+      try {
+        await transaction[method]();
+      } finally {
+        forget(target, root);
+      }
+      return undefined;
+    default:
+      throw new Error(`Unsupported worker request on a transaction: ${method}`);
+  }
+}
+
+function openStream(stream: AsyncGenerator<SqlResultSet, void, undefined>): number {
+  const id = ++streamCounter;
+  streams.set(id, stream);
+  return id;
+}
+
+async function nextBatch(id: number): Promise<SqlResultSet | null> {
+  const stream = streams.get(id);
+  if (stream === undefined) {
+    return null;
+  }
+  try {
+    const next = await stream.next();
+    if (next.done) {
+      streams.delete(id);
+      return null;
+    }
+    return next.value;
+  } catch (e) {
+    streams.delete(id);
+    throw e;
+  }
+}
+
+async function closeStream(id: number): Promise<void> {
+  const stream = streams.get(id);
+  streams.delete(id);
+  await stream?.return(undefined);
+}
+
+function toQueryOptions(options: WorkerQueryOptions | undefined): QueryStreamOptions | undefined {
+  if (options?.abortFlag === undefined) {
+    return options;
+  }
+  const { abortFlag, ...rest } = options;
+  return { ...rest, signal: sharedAbortSignal(abortFlag) };
+}
+
+function forget(target: number, root: number): void {
+  if (target !== root) {
+    transactions.delete(target);
+    return;
+  }
+  for (const [id, entry] of transactions) {
+    if (entry.root === root) {
+      transactions.delete(id);
+    }
+  }
+}
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { Database } from "bun:sqlite";
-import { PrismaBunSQLiteAdapter } from "../src/adapter";
+import { Database, Statement } from "bun:sqlite";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { statSync } from "fs";
+import { PrismaBunSQLiteAdapter, PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { query, removeDatabase, tempDatabasePath } from "./helpers";
 
 describe("PrismaBunSQLiteAdapter", () => {
   let db: Database;
@@ -153,6 +156,260 @@ describe("PrismaBunSQLiteAdapter", () => {
     it("should handle empty scripts", async () => {
       await expect(adapter.executeScript("")).resolves.toBeUndefined();
     });
+
+    it("should execute migrations with triggers, comments and semicolons in literals", async () => {
+      const script = `
+        -- CreateTable
+        CREATE TABLE "Post" (
+          "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+          "title" TEXT NOT NULL DEFAULT 'untitled; draft',
+          "updatedAt" DATETIME
+        );
+        /* keep updatedAt fresh; */
+        CREATE TRIGGER "Post_touch" AFTER UPDATE OF "title" ON "Post"
+        BEGIN
+          UPDATE "Post" SET "updatedAt" = '2025-01-01 00:00:00' WHERE "id" = NEW."id";
+        END;
+        INSERT INTO "Post" ("id") VALUES (1);
+        UPDATE "Post" SET "title" = 'a;b' WHERE "id" = 1;
+      `;
+
+      await adapter.executeScript(script);
+
+      const result = await adapter.queryRaw({
+        sql: `SELECT "title", "updatedAt" FROM "Post"`,
+        args: [],
+        argTypes: []
+      });
+
+      expect(result.rows).toEqual([["a;b", "2025-01-01T00:00:00.000Z"]]);
+    });
+
+    it("should execute trigger scripts through executeRaw", async () => {
+      await adapter.executeRaw({
+        sql: `
+          CREATE TABLE audit (msg TEXT);
+          CREATE TRIGGER users_audit AFTER INSERT ON users BEGIN
+            INSERT INTO audit (msg) VALUES ('inserted; ' || NEW.name);
+          END;
+          INSERT INTO users (name) VALUES ('Dora');
+        `,
+        args: [],
+        argTypes: []
+      });
+
+      expect(db.query("SELECT msg FROM audit").values()).toEqual([["inserted; Dora"]]);
+    });
+  });
+
+  describe("dispose", () => {
+    let path: string;
+
+    beforeEach(() => {
+      path = tempDatabasePath("dispose");
+    });
+
+    afterEach(() => {
+      removeDatabase(path);
+    });
+
+    it("should wait for the open transaction and queued statements", async () => {
+      const tx = await adapter.startTransaction();
+      await tx.executeRaw(query("INSERT INTO users (name) VALUES ('Ada')"));
+      const queued = adapter.queryRaw(query("SELECT name FROM users"));
+
+      let disposed = false;
+      const disposing = adapter.dispose().then(() => { disposed = true; });
+      await Bun.sleep(20);
+      expect(disposed).toBe(false);
+
+      await tx.commit();
+      expect((await queued).rows).toEqual([["Ada"]]);
+      await disposing;
+      expect(disposed).toBe(true);
+    });
+
+    it("should roll back a transaction still open after disposeTimeout", async () => {
+      const writer = new PrismaBunSQLiteAdapter(new Database(path), { disposeTimeout: 20 });
+      await writer.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+      const tx = await writer.startTransaction();
+      await tx.executeRaw(query("INSERT INTO item VALUES (1)"));
+
+      await writer.dispose();
+
+      try {
+        await tx.commit();
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect((error as DriverAdapterError).cause).toMatchObject({
+          kind: "TransactionAlreadyClosed",
+          cause: "Transaction was rolled back because the adapter was disposed.",
+        });
+      }
+      const check = new Database(path);
+      expect(check.query("SELECT COUNT(*) FROM item").values()).toEqual([[0]]);
+      check.close();
+    });
+
+    const expectDisposed = async (call: () => Promise<unknown>) => {
+      try {
+        await call();
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect((error as DriverAdapterError).cause).toMatchObject({
+          kind: "GenericJs",
+          originalMessage: "Adapter has been disposed",
+        });
+      }
+    };
+
+    it("should stop a stream still open after disposeTimeout", async () => {
+      const writer = new PrismaBunSQLiteAdapter(new Database(path), { disposeTimeout: 20 });
+      await writer.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY); INSERT INTO item VALUES (1), (2), (3);");
+      const stream = writer.queryStream(query("SELECT id FROM item"), { batchSize: 1 });
+      expect((await stream.next()).value).toMatchObject({ rows: [[1]] });
+
+      await writer.dispose();
+
+      await expectDisposed(() => stream.next());
+      expect(await stream.next()).toEqual({ value: undefined, done: true });
+    });
+
+    it("should stop a transaction's stream when dispose rolls the transaction back", async () => {
+      const writer = new PrismaBunSQLiteAdapter(new Database(path), { disposeTimeout: 20 });
+      await writer.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY); INSERT INTO item VALUES (1), (2), (3);");
+      const tx = await writer.startTransaction();
+      const stream = tx.queryStream(query("SELECT id FROM item"), { batchSize: 1 });
+      await stream.next();
+
+      await writer.dispose();
+
+      await expect(stream.next()).rejects.toMatchObject({
+        cause: { kind: "TransactionAlreadyClosed", cause: "Transaction was rolled back because the adapter was disposed." },
+      });
+    });
+
+    const connectWithReader = async () => {
+      const pooled = await new PrismaBunSQLiteAdapterFactory({ url: path, walMode: true, readPoolSize: 1, disposeTimeout: 50 }).connect();
+      await pooled.executeScript("CREATE TABLE IF NOT EXISTS item (id INTEGER PRIMARY KEY); INSERT OR IGNORE INTO item VALUES (1), (2), (3);");
+      return pooled;
+    };
+
+    it("should wait for reader streams", async () => {
+      const pooled = await connectWithReader();
+      const stream = pooled.queryStream(query("SELECT id FROM item ORDER BY id"), { batchSize: 1 });
+      await stream.next();
+
+      let disposed = false;
+      const disposing = pooled.dispose().then(() => { disposed = true; });
+      await Bun.sleep(10);
+      expect(disposed).toBe(false);
+
+      expect((await stream.next()).value).toMatchObject({ rows: [["2"]] });
+      await stream.return(undefined);
+      await disposing;
+      expect(disposed).toBe(true);
+    });
+
+    it("should stop a reader stream still open after disposeTimeout", async () => {
+      const pooled = await connectWithReader();
+      const stream = pooled.queryStream(query("SELECT id FROM item ORDER BY id"), { batchSize: 1 });
+      await stream.next();
+
+      await pooled.dispose();
+
+      await expectDisposed(() => stream.next());
+    });
+
+    it("should stop a statement waiting to retry after SQLITE_BUSY", async () => {
+      const writer = new PrismaBunSQLiteAdapter(new Database(path), {
+        disposeTimeout: 20,
+        busyRetry: { maxAttempts: 100, initialDelay: 10, jitter: false },
+      });
+      await writer.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+      const blocker = new Database(path);
+      blocker.run("BEGIN IMMEDIATE");
+
+      const insert = writer.executeRaw(query("INSERT INTO item VALUES (1)"));
+      await Bun.sleep(5);
+      await writer.dispose();
+      blocker.run("COMMIT");
+
+      await expectDisposed(() => insert);
+      expect(blocker.query("SELECT COUNT(*) FROM item").values()).toEqual([[0]]);
+      blocker.close();
+    });
+
+    it("should stop a COMMIT waiting to retry after SQLITE_BUSY", async () => {
+      const writer = new PrismaBunSQLiteAdapter(new Database(path), {
+        disposeTimeout: 20,
+        busyRetry: { maxAttempts: 100, initialDelay: 10, jitter: false },
+      });
+      await writer.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+      // Without WAL a reader keeps writers from committing
+      const blocker = new Database(path);
+      blocker.run("BEGIN");
+      blocker.query("SELECT COUNT(*) FROM item").get();
+      const tx = await writer.startTransaction();
+      await tx.executeRaw(query("INSERT INTO item VALUES (1)"));
+
+      const commit = tx.commit();
+      await Bun.sleep(5);
+      await writer.dispose();
+      blocker.run("COMMIT");
+
+      await expect(commit).rejects.toMatchObject({
+        cause: { kind: "TransactionAlreadyClosed", cause: "Transaction was rolled back because the adapter was disposed." },
+      });
+      expect(blocker.query("SELECT COUNT(*) FROM item").values()).toEqual([[0]]);
+      blocker.close();
+    });
+
+    it("should reject calls after dispose", async () => {
+      await adapter.dispose();
+
+      for (const call of [
+        () => adapter.queryRaw(query("SELECT 1")),
+        () => adapter.executeRaw(query("DELETE FROM users")),
+        () => adapter.executeScript("SELECT 1"),
+        () => adapter.queryStream(query("SELECT 1")).next(),
+        () => adapter.startTransaction(),
+        () => adapter.checkpoint(),
+      ]) {
+        try {
+          await call();
+          expect.unreachable("Should have thrown error");
+        } catch (error) {
+          expect((error as DriverAdapterError).cause).toMatchObject({
+            kind: "GenericJs",
+            originalMessage: "Adapter has been disposed",
+          });
+        }
+      }
+    });
+
+    it("should only dispose once", async () => {
+      const first = adapter.dispose();
+
+      expect(adapter.dispose()).toBe(first);
+      await first;
+    });
+
+    it("should empty the WAL with checkpointOnDispose", async () => {
+      // Another connection keeps the database open, so closing doesn't remove the WAL
+      const other = new Database(path);
+      other.run("PRAGMA journal_mode = WAL");
+      const writer = new PrismaBunSQLiteAdapter(new Database(path), { checkpointOnDispose: true, optimizeOnDispose: true });
+      await writer.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY); INSERT INTO item VALUES (1);");
+      expect(other.query("SELECT id FROM item").values()).toEqual([[1]]);
+      expect(statSync(path + "-wal").size).toBeGreaterThan(0);
+
+      await writer.dispose();
+
+      expect(statSync(path + "-wal").size).toBe(0);
+      expect(other.query("SELECT id FROM item").values()).toEqual([[1]]);
+      other.close();
+    });
   });
 
   describe("provider and adapterName", () => {
@@ -295,6 +552,161 @@ describe("PrismaBunSQLiteAdapter", () => {
       expect(result.rows[0]).toEqual([1, "hello"]);
     });
 
+    describe("declared types from the statement", () => {
+      beforeEach(() => {
+        db.exec(`
+          CREATE TABLE posts (
+            id INTEGER PRIMARY KEY,
+            author_id INTEGER NOT NULL,
+            published BOOLEAN NOT NULL,
+            published_at DATETIME
+          );
+          INSERT INTO users (id, name, email, created_at) VALUES (1, 'Alice', 'alice@test.com', '2025-08-20 14:42:26');
+          INSERT INTO posts VALUES (10, 1, 1, '2025-08-21 09:00:00');
+          CREATE VIEW published_posts AS SELECT p.id AS postId, p.published_at AS at FROM posts p WHERE p.published;
+        `);
+      });
+
+      it("should resolve aliased columns across joins", async () => {
+        const result = await adapter.queryRaw({
+          sql: `SELECT u.id AS userId, p.published AS isPublished, p.published_at AS publishedAt, u.name
+                FROM users u JOIN posts p ON p.author_id = u.id`,
+          args: [],
+          argTypes: []
+        });
+
+        expect(result.columnNames).toEqual(["userId", "isPublished", "publishedAt", "name"]);
+        expect(result.columnTypes).toEqual([0, 5, 10, 7]); // Int32, Boolean, DateTime, Text
+        expect(result.rows[0][2]).toBe("2025-08-21T09:00:00.000Z");
+      });
+
+      it("should resolve columns selected from subqueries and CTEs", async () => {
+        const result = await adapter.queryRaw({
+          sql: `WITH recent AS (SELECT author_id, published_at FROM posts)
+                SELECT sub.created_at, recent.published_at
+                FROM (SELECT id, created_at FROM users) AS sub
+                JOIN recent ON recent.author_id = sub.id`,
+          args: [],
+          argTypes: []
+        });
+
+        expect(result.columnTypes).toEqual([10, 10]); // DateTime, DateTime
+      });
+
+      it("should resolve UNION and view columns", async () => {
+        const union = await adapter.queryRaw({
+          sql: `SELECT created_at FROM users UNION ALL SELECT published_at FROM posts`,
+          args: [],
+          argTypes: []
+        });
+        const view = await adapter.queryRaw({
+          sql: `SELECT postId, at FROM published_posts`,
+          args: [],
+          argTypes: []
+        });
+
+        expect(union.columnTypes).toEqual([10]);
+        expect(view.columnTypes).toEqual([0, 10]);
+      });
+
+      it("should resolve declared types for empty result sets and infer expressions", async () => {
+        const result = await adapter.queryRaw({
+          sql: `SELECT p.published, COUNT(*) AS total FROM posts p WHERE p.id = ? GROUP BY p.published`,
+          args: ["999"],
+          argTypes: [{ scalarType: "int", arity: "scalar" }]
+        });
+
+        expect(result.rows).toHaveLength(0);
+        expect(result.columnTypes).toEqual([5, 0]); // Boolean, all-null fallback Int32
+      });
+    });
+
+    describe("RETURNING clauses", () => {
+      const returningSql = `INSERT INTO "Account" ("createdAt", "isAdmin", "balance", "lastSeen")
+        VALUES (?, ?, ?, ?) RETURNING "id", "createdAt", "isAdmin", "balance", "lastSeen"`;
+      const returningArgs = {
+        args: ["2025-08-20 14:42:26", true, "9007199254740993", 1755700946000],
+        argTypes: [
+          { scalarType: "datetime", arity: "scalar" },
+          { scalarType: "boolean", arity: "scalar" },
+          { scalarType: "bigint", arity: "scalar" },
+          { scalarType: "int", arity: "scalar" },
+        ] as any,
+      };
+
+      beforeEach(() => {
+        db.exec(`
+          CREATE TABLE "Account" (
+            "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+            "createdAt" DATETIME NOT NULL,
+            "isAdmin" BOOLEAN NOT NULL DEFAULT false,
+            "balance" BIGINT NOT NULL,
+            "lastSeen" DATETIME
+          )
+        `);
+      });
+
+      it("should type INSERT, UPDATE and DELETE RETURNING columns like a SELECT", async () => {
+        const inserted = await adapter.queryRaw({ sql: returningSql, ...returningArgs });
+        const updated = await adapter.queryRaw({
+          sql: `UPDATE "Account" SET "isAdmin" = ? WHERE "id" = ? RETURNING "isAdmin", "lastSeen"`,
+          args: [false, "1"],
+          argTypes: [{ scalarType: "boolean", arity: "scalar" }, { scalarType: "int", arity: "scalar" }]
+        });
+        const deleted = await adapter.queryRaw({
+          sql: `DELETE FROM "Account" WHERE "id" = ? RETURNING "createdAt"`,
+          args: ["1"],
+          argTypes: [{ scalarType: "int", arity: "scalar" }]
+        });
+        const selected = await adapter.queryRaw({
+          sql: `SELECT "id", "createdAt", "isAdmin", "balance", "lastSeen" FROM "Account"`,
+          args: [],
+          argTypes: []
+        });
+
+        expect(inserted.columnTypes).toEqual([0, 10, 5, 1, 10]); // Int32, DateTime, Boolean, Int64, DateTime
+        expect(inserted.columnTypes).toEqual(selected.columnTypes);
+        expect(inserted.rows[0][1]).toBe("2025-08-20T14:42:26.000Z");
+        expect(inserted.rows[0][4]).toBe("2025-08-20T14:42:26.000Z");
+        expect(updated.columnTypes).toEqual([5, 10]);
+        expect(deleted.columnTypes).toEqual([10]);
+      });
+
+      it("should resolve RETURNING columns against the target table when SQLite reports no declared types", async () => {
+        const declaredTypes = Object.getOwnPropertyDescriptor(Statement.prototype, "declaredTypes")!;
+        Object.defineProperty(Statement.prototype, "declaredTypes", {
+          configurable: true,
+          get(this: Statement) {
+            return this.columnNames.map(() => null);
+          },
+        });
+
+        try {
+          const result = await adapter.queryRaw({ sql: returningSql, ...returningArgs });
+          expect(result.columnTypes).toEqual([0, 10, 5, 1, 10]);
+        } finally {
+          Object.defineProperty(Statement.prototype, "declaredTypes", declaredTypes);
+        }
+      });
+
+      it("should resolve RETURNING columns when the statement has no type metadata", async () => {
+        const declaredTypes = Object.getOwnPropertyDescriptor(Statement.prototype, "declaredTypes")!;
+        Object.defineProperty(Statement.prototype, "declaredTypes", {
+          configurable: true,
+          get() {
+            throw new Error("declaredTypes is not supported");
+          },
+        });
+
+        try {
+          const result = await adapter.queryRaw({ sql: returningSql, ...returningArgs });
+          expect(result.columnTypes).toEqual([0, 10, 5, 1, 10]);
+        } finally {
+          Object.defineProperty(Statement.prototype, "declaredTypes", declaredTypes);
+        }
+      });
+    });
+
     it("should handle table names with quotes", async () => {
       // Create table with quoted name
       db.exec(`CREATE TABLE "quoted_table" (id INTEGER, "quoted_column" TEXT)`);
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BunSQLiteDriverAdapter, PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { query } from "./helpers";
+
+const readItems = (path: string) => {
+  const db = new Database(path, { readonly: true });
+  try {
+    return db.query("SELECT id FROM item ORDER BY id").values();
+  } finally {
+    db.close();
+  }
+};
+
+describe("backup and serialize", () => {
+  let dir: string;
+  let adapter: BunSQLiteDriverAdapter;
+
+  const connect = async (options: { walMode?: boolean; readPoolSize?: number } = {}) => {
+    adapter = await new PrismaBunSQLiteAdapterFactory({ url: join(dir, "app.db"), ...options }).connect();
+    await adapter.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY); INSERT INTO item VALUES (1), (2);");
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "backup-"));
+  });
+
+  afterEach(async () => {
+    await adapter?.dispose();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should write a copy of the database", async () => {
+    await connect();
+
+    await adapter.backup(join(dir, "copy.db"));
+
+    expect(readItems(join(dir, "copy.db"))).toEqual([[1], [2]]);
+  });
+
+  it("should wait for an open transaction and leave out its work", async () => {
+    await connect();
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("INSERT INTO item VALUES (3)"));
+
+    let done = false;
+    const backup = adapter.backup(join(dir, "copy.db")).then(() => { done = true; });
+    await Bun.sleep(20);
+    expect(done).toBe(false);
+
+    await tx.rollback();
+    await backup;
+    expect(readItems(join(dir, "copy.db"))).toEqual([[1], [2]]);
+  });
+
+  it("should copy from a reader without waiting for the open transaction", async () => {
+    await connect({ walMode: true, readPoolSize: 1 });
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("INSERT INTO item VALUES (3)"));
+
+    await adapter.backup(join(dir, "copy.db"));
+    expect(readItems(join(dir, "copy.db"))).toEqual([[1], [2]]);
+
+    await tx.commit();
+  });
+
+  it("should refuse to replace an existing file unless asked to", async () => {
+    await connect();
+    const target = join(dir, "copy.db");
+    writeFileSync(target, "old");
+
+    try {
+      await adapter.backup(target);
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause).toMatchObject({
+        kind: "GenericJs",
+        originalMessage: expect.stringContaining("already exists"),
+      });
+    }
+
+    await adapter.backup(target, { overwrite: true });
+    expect(readItems(target)).toEqual([[1], [2]]);
+  });
+
+  it("should leave no partial file behind when the backup fails", async () => {
+    await connect();
+
+    try {
+      await adapter.backup(join(dir, "missing", "copy.db"));
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause).toMatchObject({
+        kind: "GenericJs",
+        originalMessage: expect.stringContaining("Failed to back up main"),
+      });
+    }
+    expect(existsSync(join(dir, "missing"))).toBe(false);
+    expect(readdirSync(dir).filter((name) => name.includes("copy"))).toEqual([]);
+  });
+
+  it("should back up an attached database", async () => {
+    const archive = new Database(join(dir, "archive.db"));
+    archive.run("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+    archive.run("INSERT INTO item VALUES (7)");
+    archive.close();
+    adapter = await new PrismaBunSQLiteAdapterFactory({
+      url: join(dir, "app.db"),
+      attachments: { archive: join(dir, "archive.db") },
+    }).connect();
+
+    await adapter.backup(join(dir, "copy.db"), { schema: "archive" });
+
+    expect(readItems(join(dir, "copy.db"))).toEqual([[7]]);
+  });
+
+  it("should serialize the committed state", async () => {
+    await connect();
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("INSERT INTO item VALUES (3)"));
+
+    const serialized = adapter.serialize();
+    await tx.rollback();
+    const bytes = await serialized;
+
+    expect(bytes).toBeInstanceOf(Uint8Array);
+    const copy = Database.deserialize(bytes);
+    expect(copy.query("SELECT id FROM item ORDER BY id").values()).toEqual([[1], [2]]);
+    copy.close();
+  });
+
+  it("should serialize an in-memory database", async () => {
+    adapter = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:" }).connect();
+    await adapter.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY); INSERT INTO item VALUES (5);");
+
+    const copy = Database.deserialize(await adapter.serialize());
+
+    expect(copy.query("SELECT id FROM item").values()).toEqual([[5]]);
+    copy.close();
+  });
+
+  it("should reject an unknown schema", async () => {
+    await connect();
+
+    await expect(adapter.serialize("missing")).rejects.toThrow(DriverAdapterError);
+  });
+});
+
+describe("backup and serialize in worker mode", () => {
+  it("should back up and serialize on the worker", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "backup-"));
+    const adapter = await new PrismaBunSQLiteAdapterFactory({ url: join(dir, "app.db"), worker: true }).connect();
+    await adapter.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY); INSERT INTO item VALUES (1);");
+
+    await adapter.backup(join(dir, "copy.db"));
+    expect(readItems(join(dir, "copy.db"))).toEqual([[1]]);
+
+    const copy = Database.deserialize(await adapter.serialize());
+    expect(copy.query("SELECT id FROM item").values()).toEqual([[1]]);
+    copy.close();
+
+    await adapter.dispose();
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
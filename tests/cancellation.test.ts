@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { QueryInterrupt, sharedAbortSignal } from "../src/cancellation";
+import { PrismaBunSQLiteAdapter, PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { query } from "./helpers";
+
+// Streams rows until interrupted, finishing it takes seconds
+const slowQuery = query(`
+  WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 50000000)
+  SELECT x FROM n
+`);
+
+const expectInterrupted = async (promise: Promise<unknown>, message?: string) => {
+  try {
+    await promise;
+    expect.unreachable("Should have thrown error");
+  } catch (error) {
+    expect(error).toBeInstanceOf(DriverAdapterError);
+    const cause = (error as DriverAdapterError).cause as { kind: string; extendedCode: number; message: string };
+    expect(cause.kind).toBe("sqlite");
+    expect(cause.extendedCode).toBe(9);
+    if (message !== undefined) {
+      expect(cause.message).toContain(message);
+    }
+  }
+};
+
+describe("QueryInterrupt", () => {
+  it("should not apply without timeout or signal", () => {
+    expect(QueryInterrupt.from()).toBeNull();
+    expect(QueryInterrupt.from({})).toBeNull();
+  });
+
+  it("should interrupt once the shared signal is aborted", () => {
+    const flag = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+    const interrupt = QueryInterrupt.from({ signal: sharedAbortSignal(flag) })!;
+
+    interrupt.check();
+    Atomics.store(flag, 0, 1);
+
+    expect(() => interrupt.check()).toThrow(DriverAdapterError);
+    try {
+      interrupt.check();
+    } catch (error) {
+      expect((error as DriverAdapterError).cause).toEqual({
+        kind: "sqlite",
+        extendedCode: 9,
+        message: "Query was aborted",
+      });
+    }
+  });
+
+  it("should reject signals that can't abort a running statement", () => {
+    try {
+      QueryInterrupt.from({ signal: new AbortController().signal });
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause).toEqual({
+        kind: "GenericJs",
+        id: 0,
+        originalMessage: "An AbortSignal can only interrupt queries in worker mode",
+      });
+    }
+  });
+
+  it("should interrupt after the deadline", async () => {
+    const interrupt = QueryInterrupt.from({}, 5)!;
+
+    interrupt.check();
+    await Bun.sleep(10);
+
+    expect(() => interrupt.check()).toThrow(DriverAdapterError);
+  });
+
+  it("should prefer the per-call timeout over the default", async () => {
+    const interrupt = QueryInterrupt.from({ timeout: 1000 }, 5)!;
+
+    await Bun.sleep(10);
+
+    expect(() => interrupt.check()).not.toThrow();
+  });
+});
+
+describe("query cancellation", () => {
+  let db: Database;
+  let adapter: PrismaBunSQLiteAdapter;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    adapter = new PrismaBunSQLiteAdapter(db);
+    await adapter.executeScript("CREATE TABLE account (id INTEGER PRIMARY KEY, balance INTEGER); INSERT INTO account VALUES (1, 100);");
+  });
+
+  afterEach(async () => {
+    await adapter.dispose();
+  });
+
+  it("should interrupt a query running past its timeout", async () => {
+    const started = Date.now();
+
+    await expectInterrupted(adapter.queryRaw(slowQuery, { timeout: 20 }), "Query exceeded its 20ms timeout");
+
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it("should apply the adapter's queryTimeout by default", async () => {
+    const limited = new PrismaBunSQLiteAdapter(new Database(":memory:"), { queryTimeout: 20 });
+
+    await expectInterrupted(limited.queryRaw(slowQuery));
+    // The per-call timeout wins
+    const result = await limited.queryRaw(query("SELECT 1 AS one"), { timeout: 1000 });
+    expect(result.rows).toEqual([[1]]);
+    await limited.dispose();
+  });
+
+  it("should return the result of a query that finished past its timeout", async () => {
+    // Produces its only row after the timeout has passed
+    const count = query(`
+      WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 300000)
+      SELECT count(*) AS total FROM n
+    `);
+
+    const result = await adapter.queryRaw(count, { timeout: 1 });
+
+    expect(result.rows).toEqual([[300000]]);
+  });
+
+  it("should reject signals", async () => {
+    const { signal } = new AbortController();
+
+    for (const run of [
+      () => adapter.queryRaw(query("SELECT 1"), { signal }),
+      () => adapter.executeRaw(query("UPDATE account SET balance = 0"), { signal }),
+      () => adapter.queryStream(query("SELECT 1"), { signal }).next(),
+    ]) {
+      try {
+        await run();
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect((error as DriverAdapterError).cause).toMatchObject({ kind: "GenericJs" });
+      }
+    }
+
+    const result = await adapter.queryRaw(query("SELECT balance FROM account"));
+    expect(result.rows).toEqual([[100]]);
+  });
+
+  it("should leave the statement reusable after an interrupt", async () => {
+    await expectInterrupted(adapter.queryRaw(slowQuery, { timeout: 10 }));
+
+    const result = await adapter.queryRaw(query("SELECT balance FROM account"));
+    expect(result.rows).toEqual([[100]]);
+  });
+
+  it("should return every column when column names repeat", async () => {
+    const result = await adapter.queryRaw(query("SELECT 1 AS x, 2 AS x"), { timeout: 1000 });
+
+    expect(result.rows).toEqual([[1, 2]]);
+  });
+
+  it("should roll back the transaction when a statement is interrupted", async () => {
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("UPDATE account SET balance = 0"));
+
+    await expectInterrupted(tx.queryRaw(slowQuery, { timeout: 10 }));
+
+    try {
+      await tx.queryRaw(query("SELECT 1"));
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause).toEqual({
+        kind: "TransactionAlreadyClosed",
+        cause: "Transaction was rolled back because a statement was interrupted.",
+      });
+    }
+    await expect(tx.commit()).rejects.toThrow(DriverAdapterError);
+    await tx.rollback();
+
+    // The lock is released and the update is gone
+    const result = await adapter.queryRaw(query("SELECT balance FROM account"));
+    expect(result.rows).toEqual([[100]]);
+  });
+
+  it("should roll back the outer transaction when a nested one is interrupted", async () => {
+    const outer = await adapter.startTransaction();
+    await outer.executeRaw(query("UPDATE account SET balance = 50"));
+    const inner = await outer.startNestedTransaction();
+
+    await expectInterrupted(inner.queryRaw(slowQuery, { timeout: 10 }));
+
+    await expect(outer.queryRaw(query("SELECT 1"))).rejects.toThrow(DriverAdapterError);
+    await expect(inner.queryRaw(query("SELECT 1"))).rejects.toThrow(DriverAdapterError);
+    const result = await adapter.queryRaw(query("SELECT balance FROM account"));
+    expect(result.rows).toEqual([[100]]);
+  });
+});
+
+describe("query cancellation in worker mode", () => {
+  it("should interrupt a running query when the signal aborts", async () => {
+    const adapter = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true }).connect();
+    const controller = new AbortController();
+    const started = Date.now();
+
+    setTimeout(() => controller.abort(), 20);
+    await expectInterrupted(adapter.queryRaw(slowQuery, { signal: controller.signal }), "Query was aborted");
+
+    expect(Date.now() - started).toBeLessThan(2000);
+    // The worker is free again
+    const result = await adapter.queryRaw(query("SELECT 1 AS one"));
+    expect(result.rows).toEqual([["1"]]);
+    await adapter.dispose();
+  });
+
+  it("should not start statements with an aborted signal", async () => {
+    const adapter = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true }).connect();
+    await adapter.executeScript("CREATE TABLE account (balance INTEGER); INSERT INTO account VALUES (100);");
+    const controller = new AbortController();
+    controller.abort(new Error("user left"));
+
+    await expectInterrupted(adapter.queryRaw(query("SELECT 1"), { signal: controller.signal }), "Query was aborted");
+    await expectInterrupted(adapter.executeRaw(query("UPDATE account SET balance = 0"), { signal: controller.signal }));
+
+    const result = await adapter.queryRaw(query("SELECT balance FROM account"));
+    expect(result.rows).toEqual([["100"]]);
+    await adapter.dispose();
+  });
+
+  it("should apply timeouts on the worker", async () => {
+    const adapter = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true, queryTimeout: 20 }).connect();
+
+    await expectInterrupted(adapter.queryRaw(slowQuery));
+    await adapter.dispose();
+  });
+});
@@ -96,6 +96,39 @@ describe("Error Handling Tests", () => {
       expect(result.kind).toBe("SocketTimeout");
     });
 
+    it("should convert SQLITE_BUSY_SNAPSHOT errors", () => {
+      const sqliteError = {
+        code: "SQLITE_BUSY_SNAPSHOT",
+        message: "database is locked"
+      };
+
+      const result = convertDriverError(sqliteError);
+
+      expect(result.kind).toBe("TransactionWriteConflict");
+    });
+
+    it("should convert SQLITE_INTERRUPT errors", () => {
+      const sqliteError = {
+        code: "SQLITE_INTERRUPT",
+        message: "interrupted"
+      };
+
+      const result = convertDriverError(sqliteError);
+
+      expect(result).toEqual({ kind: "sqlite", extendedCode: 9, message: "interrupted" });
+    });
+
+    it("should convert SQLITE_READONLY errors", () => {
+      const sqliteError = {
+        code: "SQLITE_READONLY",
+        message: "attempt to write a readonly database"
+      };
+
+      const result = convertDriverError(sqliteError);
+
+      expect(result).toEqual({ kind: "DatabaseAccessDenied" });
+    });
+
     it("should convert table not found errors", () => {
       const sqliteError = {
         code: "SQLITE_ERROR",
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { existsSync, unlinkSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { loadExtensions } from "../src/extensions";
+import { PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { query, removeDatabase, tempDatabasePath } from "./helpers";
+
+// Compiles tests/fixtures/extension.c, the tests are skipped without a C compiler
+const extensionPath = join(tmpdir(), `test-extension-${process.pid}${process.platform === "darwin" ? ".dylib" : ".so"}`);
+const compiled = Bun.which("cc") !== null
+  && Bun.spawnSync(["cc", "-shared", "-fPIC", "-o", extensionPath, join(import.meta.dir, "fixtures/extension.c")]).success;
+
+afterAll(() => {
+  if (existsSync(extensionPath)) {
+    unlinkSync(extensionPath);
+  }
+});
+
+describe.skipIf(!compiled)("loadExtensions", () => {
+  it("should load extensions by path", () => {
+    const db = new Database(":memory:");
+
+    loadExtensions(db, [extensionPath]);
+
+    expect(db.query("SELECT half(5) AS value").get()).toEqual({ value: 2.5 });
+    db.close();
+  });
+
+  it("should call the given entry point", () => {
+    const db = new Database(":memory:");
+
+    loadExtensions(db, [{ path: extensionPath, entryPoint: "sqlite3_twice_init" }]);
+
+    expect(db.query("SELECT twice(5) AS value").get()).toEqual({ value: 10 });
+    db.close();
+  });
+
+  it("should report load failures as adapter errors", () => {
+    const db = new Database(":memory:");
+
+    try {
+      loadExtensions(db, [{ path: extensionPath, entryPoint: "missing_init" }]);
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect(error).toBeInstanceOf(DriverAdapterError);
+      expect((error as DriverAdapterError).cause).toMatchObject({
+        kind: "GenericJs",
+        originalMessage: expect.stringContaining(`Failed to load SQLite extension ${extensionPath}: `),
+      });
+    }
+    db.close();
+  });
+});
+
+describe.skipIf(!compiled)("extensions option", () => {
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = tempDatabasePath("extensions");
+  });
+
+  afterEach(() => {
+    removeDatabase(testDbPath);
+  });
+
+  it("should load extensions into the database and its readers", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({
+      url: testDbPath,
+      walMode: true,
+      readPoolSize: 1,
+      extensions: [extensionPath, { path: extensionPath, entryPoint: "sqlite3_twice_init" }],
+    });
+    const adapter = await factory.connect();
+
+    // Served by the reader
+    const read = await adapter.queryRaw(query("SELECT half(5), twice(5)"));
+    expect(read.rows).toEqual([[2.5, 10]]);
+    // Served by the writer
+    await adapter.executeScript("CREATE TABLE item (value REAL); INSERT INTO item VALUES (half(3));");
+    const written = await adapter.queryRaw(query("SELECT value FROM item"));
+    expect(written.rows).toEqual([[1.5]]);
+
+    await adapter.dispose();
+  });
+
+  it("should load extensions into the shadow database", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, extensions: [extensionPath] });
+    const shadow = await factory.connectToShadowDb();
+
+    const result = await shadow.queryRaw(query("SELECT half(1)"));
+    expect(result.rows).toEqual([[0.5]]);
+
+    await shadow.dispose();
+  });
+
+  it("should fail to connect when an extension can't be loaded", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, extensions: [join(tmpdir(), "missing-extension")] });
+
+    await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+  });
+
+  it("should load extensions in worker mode", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true, extensions: [extensionPath] });
+    const adapter = await factory.connect();
+
+    const result = await adapter.queryRaw(query("SELECT half(8)"));
+    expect(result.rows).toEqual([[4]]);
+
+    await adapter.dispose();
+  });
+});
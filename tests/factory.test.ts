@@ -1,8 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { Database } from "bun:sqlite";
+import { ConnectionRole, PrismaBunSQLiteAdapter, PrismaBunSQLiteAdapterFactory } from "../src/adapter";
 import { existsSync, unlinkSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
+import { query, removeDatabase, tempDatabasePath } from "./helpers";
 
 describe("PrismaBunSQLiteAdapterFactory", () => {
   let factory: PrismaBunSQLiteAdapterFactory;
@@ -286,6 +289,425 @@ describe("PrismaBunSQLiteAdapterFactory", () => {
     });
   });
 
+  describe("open modes", () => {
+    const createDatabase = async () => {
+      const writer = await new PrismaBunSQLiteAdapterFactory({ url: testDbPath }).connect();
+      await writer.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY); INSERT INTO item VALUES (1);");
+      await writer.dispose();
+    };
+
+    it("should reject writes on a read-only database", async () => {
+      await createDatabase();
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: testDbPath, readonly: true }).connect();
+
+      const result = await adapter.queryRaw(query("SELECT id FROM item"));
+      expect(result.rows).toEqual([["1"]]);
+
+      for (const sql of ["INSERT INTO item VALUES (2)", "CREATE TABLE other (id INTEGER)"]) {
+        try {
+          await adapter.executeRaw({ sql, args: [], argTypes: [] });
+          expect.unreachable("Should have thrown error");
+        } catch (error) {
+          expect(error).toBeInstanceOf(DriverAdapterError);
+          expect((error as DriverAdapterError).cause.kind).toBe("DatabaseAccessDenied");
+        }
+      }
+
+      await adapter.dispose();
+    });
+
+    it("should reject writes inside a read-only transaction", async () => {
+      await createDatabase();
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: testDbPath, readonly: true }).connect();
+      const tx = await adapter.startTransaction();
+
+      await expect(tx.executeRaw(query("DELETE FROM item"))).rejects.toThrow(DriverAdapterError);
+
+      await tx.rollback();
+      await adapter.dispose();
+    });
+
+    it("should fail fast when the database doesn't exist", async () => {
+      for (const config of [{ readonly: true }, { create: false }]) {
+        factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, ...config });
+
+        await expect(factory.connect()).rejects.toMatchObject({
+          cause: { kind: "DatabaseDoesNotExist", db: testDbPath },
+        });
+        expect(existsSync(testDbPath)).toBe(false);
+      }
+    });
+
+    it("should open an existing database without create", async () => {
+      await createDatabase();
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: testDbPath, create: false }).connect();
+
+      expect(await adapter.executeRaw(query("INSERT INTO item VALUES (2)"))).toBe(1);
+
+      await adapter.dispose();
+    });
+
+    it("should let the options override the URL mode", async () => {
+      await createDatabase();
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: `file:${testDbPath}?mode=rwc`, readonly: true }).connect();
+
+      await expect(adapter.executeRaw(query("DELETE FROM item"))).rejects.toThrow(DriverAdapterError);
+
+      await adapter.dispose();
+    });
+
+    it("should reject creating a read-only database", async () => {
+      factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, readonly: true, create: true });
+
+      await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+    });
+
+    it("should keep the shadow database writable", async () => {
+      factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, readonly: true, shadowDatabaseURL: ":memory:" });
+      const shadow = await factory.connectToShadowDb();
+
+      await shadow.executeScript("CREATE TABLE migration (id INTEGER PRIMARY KEY)");
+
+      await shadow.dispose();
+    });
+  });
+
+  describe("attachments", () => {
+    let archivePath: string;
+
+    beforeEach(() => {
+      archivePath = tempDatabasePath("archive");
+    });
+
+    afterEach(() => {
+      removeDatabase(archivePath);
+      removeDatabase(testDbPath);
+    });
+
+    it("should attach databases to the writer and its readers", async () => {
+      factory = new PrismaBunSQLiteAdapterFactory({
+        url: testDbPath,
+        walMode: true,
+        readPoolSize: 1,
+        attachments: { archive: `file:${archivePath}` },
+      });
+      const adapter = await factory.connect();
+
+      await adapter.executeScript(`
+        CREATE TABLE archive."Order" (id INTEGER PRIMARY KEY, placed_at DATETIME);
+        INSERT INTO archive."Order" VALUES (1, '2024-01-01 00:00:00');
+      `);
+      // Served by the reader
+      const result = await adapter.queryRaw(query(`SELECT id, placed_at FROM "archive"."Order"`));
+
+      expect(result.rows).toEqual([["1", "2024-01-01T00:00:00.000Z"]]);
+      expect(existsSync(archivePath)).toBe(true);
+      await adapter.dispose();
+    });
+
+    it("should not attach databases to the shadow database", async () => {
+      factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, attachments: { archive: archivePath } });
+      const shadow = await factory.connectToShadowDb();
+
+      const result = await shadow.queryRaw(query("SELECT name FROM pragma_database_list"));
+      expect(result.rows).toEqual([["main"]]);
+
+      await shadow.dispose();
+    });
+
+    it("should reject attachments it can't apply", async () => {
+      for (const attachments of [{ main: archivePath }, { archive: `file:${archivePath}?mode=ro` }]) {
+        factory = new PrismaBunSQLiteAdapterFactory({ url: ":memory:", attachments });
+
+        await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+      }
+    });
+  });
+
+  describe("database sources", () => {
+    let templatePath: string;
+    const items = async (adapter: { queryRaw: PrismaBunSQLiteAdapter["queryRaw"] }) =>
+      (await adapter.queryRaw(query("SELECT id FROM item ORDER BY id"))).rows;
+
+    const createTemplate = (walMode = false) => {
+      const template = new Database(templatePath);
+      if (walMode) {
+        template.run("PRAGMA journal_mode = WAL");
+      }
+      template.run("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+      template.run("INSERT INTO item VALUES (1), (2)");
+      return template;
+    };
+
+    beforeEach(() => {
+      templatePath = tempDatabasePath("template");
+    });
+
+    afterEach(() => {
+      removeDatabase(templatePath);
+      removeDatabase(testDbPath);
+    });
+
+    it("should start an in-memory database from a snapshot on every connect", async () => {
+      const template = createTemplate();
+      const source = template.serialize();
+      template.close();
+      factory = new PrismaBunSQLiteAdapterFactory({ url: ":memory:", source });
+
+      const first = await factory.connect();
+      await first.executeRaw(query("INSERT INTO item VALUES (3)"));
+      expect(await items(first)).toEqual([["1"], ["2"], ["3"]]);
+
+      const second = await factory.connect();
+      expect(await items(second)).toEqual([["1"], ["2"]]);
+
+      await first.dispose();
+      await second.dispose();
+    });
+
+    it("should open a snapshot of a WAL database in memory", async () => {
+      const writer = (await new PrismaBunSQLiteAdapterFactory({ url: testDbPath, walMode: true }).connect()) as PrismaBunSQLiteAdapter;
+      await writer.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY); INSERT INTO item VALUES (1);");
+      const source = await writer.serialize();
+      await writer.dispose();
+
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", source }).connect();
+
+      expect(await items(adapter)).toEqual([["1"]]);
+      await adapter.executeRaw(query("INSERT INTO item VALUES (2)"));
+      await adapter.dispose();
+    });
+
+    it("should create a missing database file from a template", async () => {
+      // Commits still in the template's WAL are part of the copy
+      const template = createTemplate(true);
+      factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, source: templatePath });
+
+      const adapter = await factory.connect();
+      expect(await items(adapter)).toEqual([["1"], ["2"]]);
+      await adapter.executeRaw(query("INSERT INTO item VALUES (3)"));
+      await adapter.dispose();
+
+      expect(template.query("SELECT COUNT(*) FROM item").values()).toEqual([[2]]);
+      template.close();
+    });
+
+    it("should leave an existing database file alone", async () => {
+      createTemplate().close();
+      factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, source: templatePath });
+      const first = await factory.connect();
+      await first.executeRaw(query("DELETE FROM item"));
+      await first.dispose();
+
+      const second = await factory.connect();
+
+      expect(await items(second)).toEqual([]);
+      await second.dispose();
+    });
+
+    it("should open a read-only snapshot", async () => {
+      createTemplate().close();
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", source: templatePath, readonly: true }).connect();
+
+      expect(await items(adapter)).toEqual([["1"], ["2"]]);
+      try {
+        await adapter.executeRaw(query("INSERT INTO item VALUES (3)"));
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect((error as DriverAdapterError).cause.kind).toBe("DatabaseAccessDenied");
+      }
+      await adapter.dispose();
+    });
+
+    it("should start the shadow database from shadowSource", async () => {
+      createTemplate().close();
+      factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, shadowSource: templatePath });
+
+      const shadow = await factory.connectToShadowDb();
+      expect(await items(shadow)).toEqual([["1"], ["2"]]);
+      await shadow.dispose();
+
+      // The main database doesn't use the shadow's source
+      const adapter = await factory.connect();
+      await expect(adapter.queryRaw(query("SELECT id FROM item"))).rejects.toThrow(DriverAdapterError);
+      await adapter.dispose();
+    });
+
+    it("should reject sources that are not SQLite databases", async () => {
+      for (const [source, message] of [
+        [new TextEncoder().encode("not a database"), "not a SQLite database file"],
+        [join(tmpdir(), "missing", "template.db"), "Failed to open template database"],
+      ] as const) {
+        factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, source });
+
+        await expect(factory.connect()).rejects.toMatchObject({
+          cause: { kind: "GenericJs", originalMessage: expect.stringContaining(message) },
+        });
+        expect(existsSync(testDbPath)).toBe(false);
+      }
+    });
+
+    it("should pass the source to the worker", async () => {
+      const template = createTemplate();
+      const source = template.serialize();
+      template.close();
+
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", source, worker: true }).connect();
+
+      expect(await items(adapter)).toEqual([["1"], ["2"]]);
+      await adapter.dispose();
+    });
+  });
+
+  describe("onConnect", () => {
+    it("should run on the database before the adapter is returned", async () => {
+      const adapter = await new PrismaBunSQLiteAdapterFactory({
+        url: ":memory:",
+        onConnect: (db) => {
+          db.run("CREATE TEMP TABLE session_setting (name TEXT, value TEXT)");
+          db.run("INSERT INTO session_setting VALUES ('tenant', 'acme')");
+        },
+      }).connect();
+
+      const result = await adapter.queryRaw(query("SELECT value FROM session_setting"));
+      expect(result.rows).toEqual([["acme"]]);
+
+      await adapter.dispose();
+    });
+
+    it("should await async hooks", async () => {
+      const lookupPath = tempDatabasePath("lookup");
+      const lookup = new Database(lookupPath);
+      lookup.run("CREATE TABLE country (code TEXT); INSERT INTO country VALUES ('DE');");
+      lookup.close();
+
+      const adapter = await new PrismaBunSQLiteAdapterFactory({
+        url: ":memory:",
+        onConnect: async (db) => {
+          await Bun.sleep(1);
+          db.run(`ATTACH DATABASE '${lookupPath}' AS lookup`);
+        },
+      }).connect();
+
+      const result = await adapter.queryRaw(query("SELECT code FROM lookup.country"));
+      expect(result.rows).toEqual([["DE"]]);
+
+      await adapter.dispose();
+      removeDatabase(lookupPath);
+    });
+
+    it("should run on reader connections and the shadow database", async () => {
+      const roles: ConnectionRole[] = [];
+      factory = new PrismaBunSQLiteAdapterFactory({
+        url: testDbPath,
+        walMode: true,
+        readPoolSize: 2,
+        onConnect: (_, role) => {
+          roles.push(role);
+        },
+      });
+
+      const adapter = await factory.connect();
+      const shadow = await factory.connectToShadowDb();
+
+      expect(roles).toEqual(["writer", "reader", "reader", "shadow"]);
+      await adapter.dispose();
+      await shadow.dispose();
+      removeDatabase(testDbPath);
+    });
+
+    it("should close the database and report hook failures", async () => {
+      let connection: Database | undefined;
+      factory = new PrismaBunSQLiteAdapterFactory({
+        url: ":memory:",
+        onConnect: (db) => {
+          connection = db;
+          throw new Error("lookup database missing");
+        },
+      });
+
+      try {
+        await factory.connect();
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DriverAdapterError);
+        expect((error as DriverAdapterError).cause).toEqual({
+          kind: "GenericJs",
+          id: 0,
+          originalMessage: "onConnect failed: lookup database missing",
+        });
+      }
+      expect(() => connection!.query("SELECT 1").get()).toThrow();
+    });
+
+    it("should pass adapter errors through", async () => {
+      factory = new PrismaBunSQLiteAdapterFactory({
+        url: ":memory:",
+        onConnect: () => {
+          throw new DriverAdapterError({ kind: "DatabaseAccessDenied" });
+        },
+      });
+
+      await expect(factory.connectToShadowDb()).rejects.toMatchObject({ cause: { kind: "DatabaseAccessDenied" } });
+    });
+
+    it("should reject onConnect in worker mode", async () => {
+      factory = new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true, onConnect: () => { } });
+
+      await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+    });
+  });
+
+  describe("URL parameters", () => {
+    it("should open the database read-only with mode=ro", async () => {
+      const writer = await new PrismaBunSQLiteAdapterFactory({ url: testDbPath }).connect();
+      await writer.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+      await writer.dispose();
+
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: `file:${testDbPath}?mode=ro` }).connect();
+
+      await expect(adapter.executeScript("INSERT INTO item VALUES (1)")).rejects.toThrow();
+      const result = await adapter.queryRaw(query("SELECT COUNT(*) FROM item"));
+      expect(result.rows).toEqual([["0"]]);
+
+      await adapter.dispose();
+    });
+
+    it("should not create the database with mode=rw", async () => {
+      factory = new PrismaBunSQLiteAdapterFactory({ url: `file:${testDbPath}?mode=rw` });
+
+      await expect(factory.connect()).rejects.toThrow();
+      expect(existsSync(testDbPath)).toBe(false);
+    });
+
+    it("should apply socket_timeout as busy timeout", async () => {
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: `file:${testDbPath}?socket_timeout=5` }).connect();
+
+      const result = await adapter.queryRaw(query("PRAGMA busy_timeout"));
+      expect(result.rows).toEqual([["5000"]]);
+
+      await adapter.dispose();
+    });
+
+    it("should let factory options override URL parameters", async () => {
+      const adapter = await new PrismaBunSQLiteAdapterFactory({
+        url: `file:${testDbPath}?statement_cache_size=10`,
+        statementCacheSize: 0,
+      }).connect() as PrismaBunSQLiteAdapter;
+
+      expect(adapter.getStatementCacheStats().capacity).toBe(0);
+
+      await adapter.dispose();
+    });
+
+    it("should reject unknown URL parameters", async () => {
+      factory = new PrismaBunSQLiteAdapterFactory({ url: `file:${testDbPath}?foo=bar` });
+
+      await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+      expect(existsSync(testDbPath)).toBe(false);
+    });
+  });
+
   describe("edge cases", () => {
     it("should handle empty URL strings gracefully", async () => {
       factory = new PrismaBunSQLiteAdapterFactory({
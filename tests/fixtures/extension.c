@@ -0,0 +1,22 @@
+// Minimal SQLite extension used by tests/extensions.test.ts, it registers
+// `half(x)` returning x / 2 and has a second entry point registering `twice(x)`.
+#include <sqlite3ext.h>
+SQLITE_EXTENSION_INIT1
+
+static void half(sqlite3_context *context, int argc, sqlite3_value **argv) {
+  sqlite3_result_double(context, sqlite3_value_double(argv[0]) / 2);
+}
+
+static void twice(sqlite3_context *context, int argc, sqlite3_value **argv) {
+  sqlite3_result_double(context, sqlite3_value_double(argv[0]) * 2);
+}
+
+int sqlite3_extension_init(sqlite3 *db, char **error, const sqlite3_api_routines *api) {
+  SQLITE_EXTENSION_INIT2(api);
+  return sqlite3_create_function(db, "half", 1, SQLITE_UTF8 | SQLITE_DETERMINISTIC, 0, half, 0, 0);
+}
+
+int sqlite3_twice_init(sqlite3 *db, char **error, const sqlite3_api_routines *api) {
+  SQLITE_EXTENSION_INIT2(api);
+  return sqlite3_create_function(db, "twice", 1, SQLITE_UTF8 | SQLITE_DETERMINISTIC, 0, twice, 0, 0);
+}
@@ -0,0 +1,39 @@
+// Type-checked by public-api.test.ts, uses the documented API the way package users do: through the package entry point, without casts
+import { BunSQLiteDriverAdapter, CheckpointResult, NestableTransaction, PrismaBunSQLite, StatementCacheStats } from "../../src/index";
+
+export async function statementCache(): Promise<number> {
+  const stats: StatementCacheStats = await (await new PrismaBunSQLite({ url: ':memory:', statementCacheSize: 500 }).connect()).getStatementCacheStats();
+  return stats.hits;
+}
+
+export async function shadowDatabase(): Promise<BunSQLiteDriverAdapter> {
+  const shadow = await new PrismaBunSQLite({ url: ':memory:' }).connectToShadowDb();
+  await shadow.getBusyRetryStats();
+  return shadow;
+}
+
+export async function nestedTransaction(adapter: BunSQLiteDriverAdapter): Promise<void> {
+  const tx = await adapter.startTransaction(undefined, { mode: 'IMMEDIATE', timeout: 1000 });
+  const nested: NestableTransaction = await tx.startNestedTransaction();
+  await nested.executeRaw({ sql: "INSERT INTO item VALUES (1)", args: [], argTypes: [] }, { timeout: 100 });
+  await nested.rollback();
+  await tx.commit();
+}
+
+export async function streamRows(adapter: BunSQLiteDriverAdapter): Promise<number> {
+  let rows = 0;
+  for await (const batch of adapter.queryStream({ sql: "SELECT id FROM item", args: [], argTypes: [] }, { batchSize: 100, timeout: 1000 })) {
+    rows += batch.rows.length;
+  }
+  return rows;
+}
+
+export async function checkpoints(adapter: BunSQLiteDriverAdapter): Promise<CheckpointResult> {
+  await adapter.scheduleCheckpoints({ walSizeLimit: 4 * 1024 * 1024, mode: 'TRUNCATE' });
+  return adapter.checkpoint('PASSIVE');
+}
+
+export async function snapshot(adapter: BunSQLiteDriverAdapter): Promise<Uint8Array> {
+  await adapter.backup("./backup.db", { schema: 'main', overwrite: true });
+  return adapter.serialize();
+}
@@ -0,0 +1,23 @@
+import { rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+/**
+ * Builds a query without arguments.
+ */
+export const query = (sql: string) => ({ sql, args: [], argTypes: [] });
+
+/**
+ * Returns a path in the temp directory no other test uses.
+ */
+export const tempDatabasePath = (prefix: string) =>
+  join(tmpdir(), `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+
+/**
+ * Removes a database file along with its WAL, shared memory and journal files.
+ */
+export const removeDatabase = (path: string) => {
+  for (const suffix of ["", "-wal", "-shm", "-journal"]) {
+    rmSync(path + suffix, { force: true });
+  }
+};
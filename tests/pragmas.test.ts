@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { applyPragmas } from "../src/pragmas";
+import { PrismaBunSQLiteAdapter, PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { query, removeDatabase, tempDatabasePath } from "./helpers";
+
+const pragma = (db: Database, name: string) => db.query(`PRAGMA ${name}`).values()[0][0];
+
+const errorMessage = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(DriverAdapterError);
+    return (error as any).cause.originalMessage as string;
+  }
+  throw new Error("Expected an error");
+};
+
+describe("applyPragmas", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should enable foreign keys by default", () => {
+    applyPragmas(db);
+
+    expect(pragma(db, "foreign_keys")).toBe(1);
+  });
+
+  it("should apply and verify every pragma", () => {
+    applyPragmas(db, {
+      foreign_keys: false,
+      recursive_triggers: true,
+      cache_size: -8000,
+      temp_store: "MEMORY",
+      page_size: 8192,
+      auto_vacuum: "INCREMENTAL",
+      busy_timeout: 250,
+      secure_delete: "FAST",
+      automatic_index: false,
+    });
+
+    expect(pragma(db, "foreign_keys")).toBe(0);
+    expect(pragma(db, "recursive_triggers")).toBe(1);
+    expect(pragma(db, "cache_size")).toBe(-8000);
+    expect(pragma(db, "temp_store")).toBe(2);
+    expect(pragma(db, "page_size")).toBe(8192);
+    expect(pragma(db, "auto_vacuum")).toBe(2);
+    expect(pragma(db, "busy_timeout")).toBe(250);
+    expect(pragma(db, "secure_delete")).toBe(2);
+    expect(pragma(db, "automatic_index")).toBe(0);
+  });
+
+  it("should accept booleans for secure_delete", () => {
+    applyPragmas(db, { secure_delete: true });
+
+    expect(pragma(db, "secure_delete")).toBe(1);
+  });
+
+  it("should fail when a pragma doesn't take effect", () => {
+    db.run("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+
+    // The page size of an existing database only changes with VACUUM
+    expect(errorMessage(() => applyPragmas(db, { page_size: 8192 }))).toBe(
+      "PRAGMA page_size = 8192 did not take effect, SQLite reports 4096",
+    );
+  });
+
+  it("should fail inside a transaction for foreign_keys", () => {
+    db.run("BEGIN");
+
+    expect(errorMessage(() => applyPragmas(db, { foreign_keys: true }))).toContain("did not take effect");
+    db.run("ROLLBACK");
+  });
+
+  it("should tolerate pragmas that don't apply to the database", () => {
+    // Memory databases are never memory-mapped
+    expect(() => applyPragmas(db, { mmap_size: 1 << 20 })).not.toThrow();
+  });
+
+  it("should reject unknown pragmas and invalid values", () => {
+    expect(errorMessage(() => applyPragmas(db, { journal_mode: "WAL" } as any))).toStartWith("Unknown pragma: journal_mode");
+    expect(errorMessage(() => applyPragmas(db, { temp_store: "RAM" } as any))).toBe(
+      "Invalid value for PRAGMA temp_store: RAM. Expected DEFAULT, FILE, MEMORY",
+    );
+    expect(errorMessage(() => applyPragmas(db, { cache_size: 1.5 }))).toContain("Expected an integer");
+    expect(errorMessage(() => applyPragmas(db, { foreign_keys: 1 } as any))).toContain("Expected a boolean");
+  });
+
+  it("should skip persistent pragmas on read-only connections", () => {
+    const path = tempDatabasePath("pragmas");
+    new Database(path).close();
+    const reader = new Database(path, { readonly: true });
+
+    try {
+      applyPragmas(reader, { page_size: 8192, cache_size: 100 }, true);
+      expect(pragma(reader, "cache_size")).toBe(100);
+    } finally {
+      reader.close();
+      removeDatabase(path);
+    }
+  });
+});
+
+describe("pragmas option", () => {
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = tempDatabasePath("pragmas");
+  });
+
+  afterEach(() => {
+    removeDatabase(testDbPath);
+  });
+
+  it("should apply pragmas from the adapter constructor", async () => {
+    const db = new Database(":memory:");
+    const adapter = new PrismaBunSQLiteAdapter(db, { pragmas: { recursive_triggers: true } });
+
+    expect(pragma(db, "recursive_triggers")).toBe(1);
+    expect(pragma(db, "foreign_keys")).toBe(1);
+    await adapter.dispose();
+  });
+
+  it("should apply pragmas before enabling WAL mode", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({
+      url: testDbPath,
+      walMode: true,
+      readPoolSize: 1,
+      pragmas: { page_size: 8192, busy_timeout: 1234 },
+    });
+    const adapter = await factory.connect();
+    await adapter.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+
+    const pageSize = await adapter.queryRaw(query("PRAGMA page_size"));
+    expect(pageSize.rows).toEqual([["8192"]]);
+    // Served by the reader connection
+    const busyTimeout = await adapter.queryRaw(query("SELECT * FROM pragma_busy_timeout"));
+    expect(busyTimeout.rows).toEqual([["1234"]]);
+
+    await adapter.dispose();
+  });
+
+  it("should apply pragmas to the shadow database", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: ":memory:", pragmas: { foreign_keys: false } });
+    const shadow = await factory.connectToShadowDb();
+
+    const result = await shadow.queryRaw(query("PRAGMA foreign_keys"));
+    expect(result.rows).toEqual([["0"]]);
+
+    await shadow.dispose();
+  });
+
+  it("should fail to connect when a pragma can't be applied", async () => {
+    const db = new Database(testDbPath);
+    db.run("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+    db.close();
+
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: testDbPath, pragmas: { auto_vacuum: "FULL" } });
+
+    await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "bun:test";
+import ts from "typescript";
+import { join } from "path";
+
+const root = join(import.meta.dir, "..");
+
+describe("public API", () => {
+  it("should compile documented usage against the package entry point", () => {
+    const { config } = ts.readConfigFile(join(root, "tsconfig.json"), ts.sys.readFile);
+    const { options } = ts.parseJsonConfigFileContent(config, ts.sys, root);
+    const program = ts.createProgram([join(import.meta.dir, "fixtures", "public-api.ts")], {
+      ...options,
+      // The fixture lives outside src
+      rootDir: root,
+      noEmit: true,
+    });
+
+    const diagnostics = ts.getPreEmitDiagnostics(program).map((diagnostic) =>
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+    );
+    expect(diagnostics).toEqual([]);
+  }, 60000);
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { ColumnTypeEnum, DriverAdapterError, SqlResultSet } from "@prisma/driver-adapter-utils";
+import { ReaderPool } from "../src/reader-pool";
+import { PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { query, removeDatabase, tempDatabasePath } from "./helpers";
+
+describe("ReaderPool", () => {
+  it("should hand each connection to one caller at a time", async () => {
+    const pool = new ReaderPool(["a", "b"]);
+    const started: string[] = [];
+    const gates: Array<() => void> = [];
+    const hold = (connection: string) => {
+      started.push(connection);
+      return new Promise<void>((resolve) => gates.push(resolve));
+    };
+
+    const first = pool.use(hold);
+    const second = pool.use(hold);
+    // Both connections are checked out, the third caller waits for one to come back
+    const third = pool.use(hold);
+    await Bun.sleep(0);
+    expect(started).toEqual(["b", "a"]);
+
+    gates[0]();
+    await first;
+    await Bun.sleep(0);
+    expect(started).toEqual(["b", "a", "b"]);
+
+    gates[1]();
+    gates[2]();
+    await Promise.all([second, third]);
+  });
+
+  it("should return the connection when the callback throws", async () => {
+    const pool = new ReaderPool(["a"]);
+
+    await expect(pool.use(async () => {
+      throw new Error("boom");
+    })).rejects.toThrow("boom");
+
+    expect(await pool.use(async (connection) => connection)).toBe("a");
+  });
+
+  it("should drain once every connection is back, or give up after the timeout", async () => {
+    const pool = new ReaderPool(["a", "b"]);
+    expect(await pool.drain(0)).toBe(true);
+
+    const a = await pool.acquire();
+    const b = await pool.acquire();
+    expect(await pool.drain(10)).toBe(false);
+
+    const drained = pool.drain(1000);
+    pool.release(a);
+    await Bun.sleep(0);
+    pool.release(b);
+    expect(await drained).toBe(true);
+  });
+
+  it("should require at least one connection", () => {
+    expect(() => new ReaderPool([])).toThrow(RangeError);
+  });
+});
+
+describe("reader pool in WAL mode", () => {
+  let dbPath: string;
+
+  const connect = async (readPoolSize = 2) => {
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: dbPath, walMode: true, readPoolSize });
+    const adapter = await factory.connect();
+    await adapter.executeScript("CREATE TABLE counter (value INTEGER NOT NULL); INSERT INTO counter VALUES (0);");
+    return adapter;
+  };
+
+  const nextRows = async (stream: AsyncGenerator<SqlResultSet, void>) => {
+    const result = await stream.next();
+    return result.done ? undefined : result.value.rows;
+  };
+
+  beforeEach(() => {
+    dbPath = tempDatabasePath("readers");
+  });
+
+  afterEach(() => {
+    removeDatabase(dbPath);
+  });
+
+  it("should serve standalone reads while a transaction is open", async () => {
+    const adapter = await connect();
+
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("UPDATE counter SET value = 1"));
+
+    // Without readers this would wait for the transaction and deadlock the test
+    const result = await adapter.queryRaw(query("SELECT value FROM counter"));
+    expect(result.rows).toEqual([["0"]]);
+
+    await tx.commit();
+    await adapter.dispose();
+  });
+
+  it("should see writes and commits that completed before the query", async () => {
+    const adapter = await connect();
+    const read = async () => (await adapter.queryRaw(query("SELECT value FROM counter"))).rows[0][0];
+
+    // Warm the readers' statement caches so a stale snapshot would show
+    expect(await read()).toBe("0");
+    expect(await read()).toBe("0");
+
+    await adapter.executeRaw(query("UPDATE counter SET value = 1"));
+    expect(await read()).toBe("1");
+
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("UPDATE counter SET value = 2"));
+    await tx.commit();
+    expect(await read()).toBe("2");
+
+    await adapter.dispose();
+  });
+
+  it("should run queries of temporary tables on the writer", async () => {
+    const adapter = await connect();
+    await adapter.executeRaw(query("CREATE TEMP TABLE tmp (x INTEGER)"));
+    await adapter.executeRaw(query("INSERT INTO tmp VALUES (1)"));
+
+    expect((await adapter.queryRaw(query("SELECT * FROM tmp"))).rows).toEqual([["1"]]);
+    expect((await adapter.queryRaw(query(`SELECT x FROM "TMP" JOIN counter ON 1`))).rows).toEqual([["1"]]);
+    expect((await adapter.queryRaw(query("SELECT count(*) FROM temp.sqlite_master"))).rows).toEqual([["1"]]);
+    const stream = adapter.queryStream(query("SELECT x FROM tmp"));
+    expect(await nextRows(stream)).toEqual([["1"]]);
+    await stream.return();
+
+    await adapter.dispose();
+  });
+
+  it("should stream plain queries from a reader", async () => {
+    const adapter = await connect(1);
+
+    const stream = adapter.queryStream(query("SELECT value FROM counter UNION ALL SELECT value FROM counter"), { batchSize: 1 });
+    expect(await nextRows(stream)).toEqual([["0"]]);
+
+    // The writer stays free while the stream is open
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("UPDATE counter SET value = 1"));
+    await tx.commit();
+
+    // The stream keeps reading the snapshot it started with
+    expect(await nextRows(stream)).toEqual([["0"]]);
+    expect((await stream.next()).done).toBe(true);
+    await adapter.dispose();
+  });
+
+  it("should run writes with RETURNING on the writer", async () => {
+    const adapter = await connect();
+
+    const result = await adapter.queryRaw(query("UPDATE counter SET value = 5 RETURNING value"));
+
+    expect(result.rows).toEqual([["5"]]);
+    await adapter.dispose();
+  });
+
+  it("should resolve declared types on readers", async () => {
+    const adapter = await connect();
+    await adapter.executeScript("CREATE TABLE flags (enabled BOOLEAN); INSERT INTO flags VALUES (1);");
+
+    const result = await adapter.queryRaw(query("SELECT enabled FROM flags"));
+
+    expect(result.columnTypes).toEqual([ColumnTypeEnum.Boolean]);
+    await adapter.dispose();
+  });
+
+  it("should serve reads from the writer when WAL is unavailable", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: ":memory:", walMode: true, readPoolSize: 2 });
+    const adapter = await factory.connect();
+    await adapter.executeScript("CREATE TABLE t (id INTEGER); INSERT INTO t VALUES (1);");
+
+    const result = await adapter.queryRaw(query("SELECT id FROM t"));
+
+    expect(result.rows).toEqual([["1"]]);
+    await adapter.dispose();
+  });
+
+  it("should reject an invalid pool size", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: dbPath, walMode: true, readPoolSize: -1 });
+
+    await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { BusyRetryPolicy } from "../src/retry";
+import { PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { query, removeDatabase, tempDatabasePath } from "./helpers";
+
+const busyError = () => Object.assign(new Error("database is locked"), { code: "SQLITE_BUSY" });
+
+describe("BusyRetryPolicy", () => {
+  it("should retry busy errors until the operation succeeds", async () => {
+    const policy = new BusyRetryPolicy({ maxAttempts: 5, initialDelay: 1, jitter: false });
+    let calls = 0;
+
+    const result = await policy.run("test", () => {
+      if (++calls < 3) {
+        throw busyError();
+      }
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(calls).toBe(3);
+    expect(policy.stats()).toEqual({ retries: 2, recovered: 1, exhausted: 0 });
+  });
+
+  it("should give up after maxAttempts", async () => {
+    const policy = new BusyRetryPolicy({ maxAttempts: 3, initialDelay: 1, jitter: false });
+    let calls = 0;
+
+    await expect(policy.run("test", () => {
+      calls++;
+      throw busyError();
+    })).rejects.toThrow("database is locked");
+
+    expect(calls).toBe(3);
+    expect(policy.stats()).toEqual({ retries: 2, recovered: 0, exhausted: 1 });
+  });
+
+  it("should recognise busy errors already converted to SocketTimeout", async () => {
+    const policy = new BusyRetryPolicy({ initialDelay: 1 });
+    let calls = 0;
+
+    await policy.run("test", () => {
+      if (++calls === 1) {
+        throw new DriverAdapterError({ kind: "SocketTimeout" });
+      }
+    });
+
+    expect(calls).toBe(2);
+  });
+
+  it("should not retry other errors", async () => {
+    const policy = new BusyRetryPolicy({ initialDelay: 1 });
+    let calls = 0;
+
+    await expect(policy.run("test", () => {
+      calls++;
+      throw Object.assign(new Error("UNIQUE constraint failed"), { code: "SQLITE_CONSTRAINT_UNIQUE" });
+    })).rejects.toThrow("UNIQUE constraint failed");
+
+    expect(calls).toBe(1);
+    expect(policy.stats().retries).toBe(0);
+  });
+
+  it("should not retry SQLITE_BUSY_SNAPSHOT", async () => {
+    const policy = new BusyRetryPolicy({ initialDelay: 1 });
+    let calls = 0;
+
+    await expect(policy.run("test", () => {
+      calls++;
+      throw Object.assign(new Error("database is locked"), { code: "SQLITE_BUSY_SNAPSHOT" });
+    })).rejects.toThrow();
+
+    expect(calls).toBe(1);
+  });
+
+  it("should not retry when disabled", async () => {
+    const policy = new BusyRetryPolicy(false);
+    let calls = 0;
+
+    await expect(policy.run("test", () => {
+      calls++;
+      throw busyError();
+    })).rejects.toThrow();
+
+    expect(calls).toBe(1);
+    expect(policy.stats()).toEqual({ retries: 0, recovered: 0, exhausted: 0 });
+  });
+
+  it("should back off exponentially up to maxDelay", async () => {
+    const policy = new BusyRetryPolicy({ maxAttempts: 5, initialDelay: 10, maxDelay: 30, jitter: false });
+    const delays: number[] = [];
+    const originalSetTimeout = globalThis.setTimeout;
+    globalThis.setTimeout = ((fn: () => void, ms: number) => {
+      delays.push(ms);
+      return originalSetTimeout(fn, 0);
+    }) as typeof setTimeout;
+
+    try {
+      await expect(policy.run("test", () => {
+        throw busyError();
+      })).rejects.toThrow();
+    } finally {
+      globalThis.setTimeout = originalSetTimeout;
+    }
+
+    expect(delays).toEqual([10, 20, 30, 30]);
+  });
+
+  it("should reject invalid maxAttempts", () => {
+    expect(() => new BusyRetryPolicy({ maxAttempts: 0 })).toThrow(DriverAdapterError);
+    expect(() => new BusyRetryPolicy({ maxAttempts: 1.5 })).toThrow(DriverAdapterError);
+  });
+});
+
+describe("busy retry with multiple connections", () => {
+  let dbPath: string;
+  let blocker: Database;
+
+  const connect = async (walMode = true) => {
+    const factory = new PrismaBunSQLiteAdapterFactory({
+      url: dbPath,
+      walMode,
+      busyRetry: { maxAttempts: 10, initialDelay: 5, jitter: false },
+    });
+    return factory.connect();
+  };
+
+  beforeEach(() => {
+    dbPath = tempDatabasePath("retry");
+    blocker = new Database(dbPath);
+    blocker.exec("CREATE TABLE counter (value INTEGER NOT NULL); INSERT INTO counter VALUES (0);");
+  });
+
+  afterEach(() => {
+    blocker.close();
+    removeDatabase(dbPath);
+  });
+
+  // Holds the write lock on another connection and releases it after `ms`
+  const holdWriteLock = (ms: number) => {
+    blocker.exec("BEGIN IMMEDIATE");
+    setTimeout(() => blocker.exec("COMMIT"), ms);
+  };
+
+  it("should retry a standalone write until the lock is released", async () => {
+    const adapter = await connect();
+    holdWriteLock(30);
+
+    const changes = await adapter.executeRaw(query("UPDATE counter SET value = value + 1"));
+
+    expect(changes).toBe(1);
+    const stats = await adapter.getBusyRetryStats();
+    expect(stats.retries).toBeGreaterThan(0);
+    expect(stats.recovered).toBe(1);
+    await adapter.dispose();
+  });
+
+  it("should retry BEGIN IMMEDIATE until the lock is released", async () => {
+    const adapter = await connect();
+    holdWriteLock(30);
+
+    const tx = await adapter.startTransaction(undefined, { mode: "IMMEDIATE" });
+    await tx.executeRaw(query("UPDATE counter SET value = value + 1"));
+    await tx.commit();
+
+    expect((await adapter.getBusyRetryStats()).recovered).toBe(1);
+    expect(blocker.query("SELECT value FROM counter").get()).toEqual({ value: 1 });
+    await adapter.dispose();
+  });
+
+  it("should retry COMMIT while a reader holds a shared lock", async () => {
+    // Without WAL a reader keeps writers from committing
+    const adapter = await connect(false);
+    blocker.exec("BEGIN");
+    blocker.query("SELECT value FROM counter").get();
+    setTimeout(() => blocker.exec("COMMIT"), 30);
+
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("UPDATE counter SET value = value + 1"));
+    await tx.commit();
+
+    expect((await adapter.getBusyRetryStats()).recovered).toBe(1);
+    expect(blocker.query("SELECT value FROM counter").get()).toEqual({ value: 1 });
+    await adapter.dispose();
+  });
+
+  it("should roll back and release the lock when COMMIT keeps failing", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({
+      url: dbPath,
+      busyRetry: { maxAttempts: 2, initialDelay: 1 },
+    });
+    const adapter = await factory.connect();
+    blocker.exec("BEGIN");
+    blocker.query("SELECT value FROM counter").get();
+
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("UPDATE counter SET value = value + 1"));
+    try {
+      await tx.commit();
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause.kind).toBe("SocketTimeout");
+    }
+    blocker.exec("COMMIT");
+
+    expect((await adapter.getBusyRetryStats()).exhausted).toBe(1);
+    // The connection is usable again and the failed work is gone
+    const result = await adapter.queryRaw(query("SELECT value FROM counter"));
+    expect(result.rows).toEqual([["0"]]);
+    await (await adapter.startTransaction()).rollback();
+    await adapter.dispose();
+  });
+
+  it("should not retry statements inside a transaction", async () => {
+    const adapter = await connect();
+    const tx = await adapter.startTransaction();
+    await tx.queryRaw(query("SELECT value FROM counter"));
+    blocker.exec("BEGIN IMMEDIATE");
+
+    try {
+      await tx.executeRaw(query("UPDATE counter SET value = value + 1"));
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause.kind).toBe("SocketTimeout");
+    } finally {
+      blocker.exec("COMMIT");
+    }
+
+    expect((await adapter.getBusyRetryStats()).retries).toBe(0);
+    await tx.rollback();
+    await adapter.dispose();
+  });
+});
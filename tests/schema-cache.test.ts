@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database, Statement } from "bun:sqlite";
+import { SchemaCache } from "../src/schema-cache";
+import { StatementCache } from "../src/statement-cache";
+import { PrismaBunSQLiteAdapter } from "../src/adapter";
+import { query, removeDatabase, tempDatabasePath } from "./helpers";
+
+describe("SchemaCache", () => {
+  let db: Database;
+  let statements: StatementCache;
+  let tableInfoCalls: number;
+
+  const createCache = (database: Database) => {
+    statements = new StatementCache(database);
+    const use = statements.use.bind(statements);
+    statements.use = ((sql: string, fn: any) => {
+      if (sql.startsWith("PRAGMA table_info")) {
+        tableInfoCalls++;
+      }
+      return use(sql, fn);
+    }) as StatementCache["use"];
+    return new SchemaCache(statements);
+  };
+
+  beforeEach(() => {
+    tableInfoCalls = 0;
+    db = new Database(":memory:");
+    db.exec(`CREATE TABLE "User" (id INTEGER PRIMARY KEY, created_at DATETIME)`);
+  });
+
+  afterEach(() => {
+    statements.clear();
+    db.close();
+  });
+
+  it("should read table info once per table", () => {
+    const cache = createCache(db);
+
+    expect(cache.getColumnTypes("User")).toEqual(new Map([["id", "INTEGER"], ["created_at", "DATETIME"]]));
+    cache.getColumnTypes("User");
+    cache.getColumnTypes("user");
+
+    expect(tableInfoCalls).toBe(1);
+  });
+
+  it("should reload table info after invalidate", () => {
+    const cache = createCache(db);
+
+    cache.getColumnTypes("User");
+    cache.invalidate();
+    cache.getColumnTypes("User");
+
+    expect(tableInfoCalls).toBe(2);
+  });
+
+  it("should clear the statement cache on invalidate", () => {
+    const cache = createCache(db);
+
+    cache.getColumnTypes("User");
+    expect(statements.stats().size).toBeGreaterThan(0);
+    cache.invalidate();
+
+    expect(statements.stats().size).toBe(0);
+  });
+
+  it("should not cache tables that do not exist yet", () => {
+    const cache = createCache(db);
+
+    expect(cache.getColumnTypes("Post").size).toBe(0);
+    db.exec(`CREATE TABLE "Post" (id INTEGER PRIMARY KEY, published BOOLEAN)`);
+
+    expect(cache.getColumnTypes("Post").get("published")).toBe("BOOLEAN");
+  });
+
+  it("should reload table info when another connection changes the schema", () => {
+    const path = tempDatabasePath("test-schema-cache");
+    const writer = new Database(path);
+    const reader = new Database(path);
+
+    try {
+      writer.exec(`CREATE TABLE "User" (id INTEGER PRIMARY KEY)`);
+      const cache = createCache(reader);
+
+      expect(cache.getColumnTypes("User").has("email")).toBe(false);
+      writer.exec(`ALTER TABLE "User" ADD COLUMN email TEXT`);
+
+      expect(cache.getColumnTypes("User").get("email")).toBe("TEXT");
+      expect(tableInfoCalls).toBe(2);
+    } finally {
+      statements.clear();
+      reader.close();
+      writer.close();
+      removeDatabase(path);
+    }
+  });
+
+  it("should resolve tables of attached schemas", () => {
+    db.exec(`ATTACH DATABASE ':memory:' AS "archive"`);
+    db.exec(`CREATE TABLE archive."User" (id INTEGER PRIMARY KEY, archived_at TIMESTAMP)`);
+    const cache = createCache(db);
+
+    expect(cache.getColumnTypes("User", "archive")).toEqual(new Map([["id", "INTEGER"], ["archived_at", "TIMESTAMP"]]));
+    expect(cache.getColumnTypes("User").has("created_at")).toBe(true);
+    expect(cache.getColumnTypes("User", "ARCHIVE").has("archived_at")).toBe(true);
+  });
+
+  it("should quote schema and table names", () => {
+    db.exec(`ATTACH DATABASE ':memory:' AS "odd""schema"`);
+    db.exec(`CREATE TABLE "odd""schema"."Order" ("group" TEXT)`);
+    db.exec(`CREATE TABLE "we""ird) x" (id INTEGER)`);
+    const cache = createCache(db);
+
+    expect(cache.getColumnTypes("Order", `odd"schema`).get("group")).toBe("TEXT");
+    expect(cache.getColumnTypes(`we"ird) x`).get("id")).toBe("INTEGER");
+    expect(() => cache.getColumnTypes("User", "missing")).toThrow("unknown database");
+  });
+
+  it("should reload table info when an attached schema changes", () => {
+    const path = tempDatabasePath("test-schema-cache-archive");
+    const writer = new Database(path);
+
+    try {
+      writer.exec(`CREATE TABLE "Order" (id INTEGER PRIMARY KEY)`);
+      db.exec(`ATTACH DATABASE '${path}' AS archive`);
+      const cache = createCache(db);
+
+      expect(cache.getColumnTypes("Order", "archive").has("total")).toBe(false);
+      writer.exec(`ALTER TABLE "Order" ADD COLUMN total DECIMAL`);
+
+      expect(cache.getColumnTypes("Order", "archive").get("total")).toBe("DECIMAL");
+    } finally {
+      statements.clear();
+      db.exec("DETACH DATABASE archive");
+      writer.close();
+      removeDatabase(path);
+    }
+  });
+});
+
+describe("Adapter schema cache", () => {
+  it("should resolve RETURNING columns added by DDL through the adapter", async () => {
+    const adapter = new PrismaBunSQLiteAdapter(new Database(":memory:"));
+    const declaredTypes = Object.getOwnPropertyDescriptor(Statement.prototype, "declaredTypes")!;
+    Object.defineProperty(Statement.prototype, "declaredTypes", {
+      configurable: true,
+      get(this: Statement) {
+        return this.columnNames.map(() => null);
+      },
+    });
+
+    try {
+      await adapter.executeScript(`CREATE TABLE "User" (id INTEGER PRIMARY KEY);`);
+      await adapter.queryRaw(query(`INSERT INTO "User" (id) VALUES (1) RETURNING id`));
+      await adapter.executeRaw(query(`ALTER TABLE "User" ADD COLUMN "createdAt" DATETIME`));
+
+      const result = await adapter.queryRaw({
+        sql: `INSERT INTO "User" (id, "createdAt") VALUES (2, '2025-08-20 14:42:26') RETURNING id, "createdAt"`,
+        args: [],
+        argTypes: []
+      });
+
+      expect(result.columnTypes).toEqual([0, 10]); // Int32, DateTime
+    } finally {
+      Object.defineProperty(Statement.prototype, "declaredTypes", declaredTypes);
+      await adapter.dispose();
+    }
+  });
+
+  it("should return the new columns of a cached SELECT * after ALTER TABLE", async () => {
+    const adapter = new PrismaBunSQLiteAdapter(new Database(":memory:"));
+    const select = query(`SELECT * FROM "User"`);
+
+    try {
+      await adapter.executeScript(`CREATE TABLE "User" (id INTEGER PRIMARY KEY, name TEXT); INSERT INTO "User" VALUES (1, 'a');`);
+      expect((await adapter.queryRaw(select)).columnNames).toEqual(["id", "name"]);
+      await adapter.executeRaw(query(`ALTER TABLE "User" ADD COLUMN email TEXT`));
+
+      const result = await adapter.queryRaw(select);
+
+      expect(result.columnNames).toEqual(["id", "name", "email"]);
+      expect(result.columnTypes).toHaveLength(3);
+      expect(result.rows).toEqual([[1, "a", null]]);
+    } finally {
+      await adapter.dispose();
+    }
+  });
+
+  it("should return the new columns of a cached SELECT * after another connection alters the table", async () => {
+    const path = tempDatabasePath("test-schema-cache-select");
+    const adapter = new PrismaBunSQLiteAdapter(new Database(path));
+    const other = new Database(path);
+    const select = query(`SELECT * FROM "User"`);
+
+    try {
+      await adapter.executeScript(`CREATE TABLE "User" (id INTEGER PRIMARY KEY, name TEXT); INSERT INTO "User" VALUES (1, 'a');`);
+      expect((await adapter.queryRaw(select)).columnNames).toEqual(["id", "name"]);
+      other.exec(`ALTER TABLE "User" ADD COLUMN email TEXT`);
+
+      for (let i = 0; i < 2; i++) {
+        const result = await adapter.queryRaw(select);
+        expect(result.columnNames).toEqual(["id", "name", "email"]);
+        expect(result.columnTypes).toHaveLength(3);
+        expect(result.rows).toEqual([[1, "a", null]]);
+      }
+    } finally {
+      await adapter.dispose();
+      other.close();
+      removeDatabase(path);
+    }
+  });
+
+  it("should resolve RETURNING columns of schema-qualified tables", async () => {
+    const adapter = new PrismaBunSQLiteAdapter(new Database(":memory:"));
+    const declaredTypes = Object.getOwnPropertyDescriptor(Statement.prototype, "declaredTypes")!;
+    Object.defineProperty(Statement.prototype, "declaredTypes", {
+      configurable: true,
+      get(this: Statement) {
+        return this.columnNames.map(() => null);
+      },
+    });
+
+    try {
+      await adapter.executeScript(`
+        ATTACH DATABASE ':memory:' AS "archive";
+        CREATE TABLE "Order" (id INTEGER PRIMARY KEY, total TEXT);
+        CREATE TABLE "archive"."Order" (id INTEGER PRIMARY KEY, total DECIMAL);
+      `);
+
+      const result = await adapter.queryRaw({
+        sql: `INSERT INTO "archive"."Order" (id, total) VALUES (1, '9.99') RETURNING id, total`,
+        args: [],
+        argTypes: []
+      });
+
+      expect(result.columnTypes).toEqual([0, 4]); // Int32, Numeric
+    } finally {
+      Object.defineProperty(Statement.prototype, "declaredTypes", declaredTypes);
+      await adapter.dispose();
+    }
+  });
+});
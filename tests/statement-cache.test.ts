@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database, Statement } from "bun:sqlite";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { StatementCache } from "../src/statement-cache";
+import { PrismaBunSQLiteAdapter, PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { query, removeDatabase, tempDatabasePath } from "./helpers";
+
+describe("StatementCache", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should reuse prepared statements and count hits and misses", () => {
+    const cache = new StatementCache(db, 10);
+
+    const first = cache.use("SELECT 1", (stmt) => stmt);
+    const second = cache.use("SELECT 1", (stmt) => stmt);
+    cache.use("SELECT 2", (stmt) => stmt.get());
+
+    expect(second).toBe(first);
+    expect(cache.stats()).toEqual({ size: 2, capacity: 10, hits: 1, misses: 2, evictions: 0 });
+  });
+
+  it("should evict and finalize the least recently used statement", () => {
+    const cache = new StatementCache(db, 2);
+    const finalized: string[] = [];
+    const tracked = new WeakSet<Statement>();
+    const track = (stmt: Statement) => {
+      if (tracked.has(stmt)) {
+        return stmt;
+      }
+      tracked.add(stmt);
+      const finalize = stmt.finalize.bind(stmt);
+      stmt.finalize = () => {
+        finalized.push(stmt.toString());
+        finalize();
+      };
+      return stmt;
+    };
+
+    cache.use("SELECT 1", track);
+    cache.use("SELECT 2", track);
+    cache.use("SELECT 1", track); // SELECT 2 is now least recently used
+    cache.use("SELECT 3", track);
+
+    expect(finalized).toEqual(["SELECT 2"]);
+    expect(cache.stats()).toMatchObject({ size: 2, hits: 1, misses: 3, evictions: 1 });
+
+    cache.clear();
+    expect(finalized).toEqual(["SELECT 2", "SELECT 1", "SELECT 3"]);
+    expect(cache.stats().size).toBe(0);
+  });
+
+  it("should finalize every statement after use when capacity is 0", () => {
+    const cache = new StatementCache(db, 0);
+
+    const stmt = cache.use("SELECT 1 AS one", (stmt) => {
+      expect(stmt.get()).toEqual({ one: 1 });
+      return stmt;
+    });
+
+    expect(() => stmt.get()).toThrow();
+    expect(cache.stats()).toMatchObject({ size: 0, hits: 0, misses: 1, evictions: 0 });
+  });
+
+  it("should reject invalid capacities", () => {
+    expect(() => new StatementCache(db, -1)).toThrow(DriverAdapterError);
+    expect(() => new StatementCache(db, 1.5)).toThrow(DriverAdapterError);
+  });
+});
+
+describe("Adapter statement cache", () => {
+  it("should expose statement cache statistics", async () => {
+    const adapter = new PrismaBunSQLiteAdapter(new Database(":memory:"), { statementCacheSize: 2 });
+    const run = (sql: string) => adapter.queryRaw(query(sql));
+
+    await run("SELECT 1");
+    await run("SELECT 1");
+    await run("SELECT 2");
+    await run("SELECT 3");
+
+    expect(adapter.getStatementCacheStats()).toEqual({ size: 2, capacity: 2, hits: 1, misses: 3, evictions: 1 });
+
+    await adapter.dispose();
+  });
+
+  it("should take the cache size from the factory configuration", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: ":memory:", statementCacheSize: 5 });
+    const adapter = await factory.connect() as PrismaBunSQLiteAdapter;
+    const shadow = await factory.connectToShadowDb() as PrismaBunSQLiteAdapter;
+
+    expect(adapter.getStatementCacheStats().capacity).toBe(5);
+    expect(shadow.getStatementCacheStats().capacity).toBe(5);
+
+    await adapter.dispose();
+    await shadow.dispose();
+  });
+
+  it("should add up the caches of the reader connections", async () => {
+    const path = tempDatabasePath("statement-cache");
+    const adapter = await new PrismaBunSQLiteAdapterFactory({ url: path, walMode: true, readPoolSize: 2, statementCacheSize: 10 }).connect();
+    await adapter.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+    const before = await adapter.getStatementCacheStats();
+
+    // Served by a reader
+    await adapter.queryRaw(query("SELECT id FROM item"));
+    await adapter.queryRaw(query("SELECT id FROM item"));
+
+    const after = await adapter.getStatementCacheStats();
+    expect(after.capacity).toBe(30);
+    expect(after.hits - before.hits).toBe(1);
+    expect(after.misses - before.misses).toBe(1);
+    expect(after.size - before.size).toBe(1);
+
+    await adapter.dispose();
+    removeDatabase(path);
+  });
+
+  it("should share the cache with transactions", async () => {
+    const adapter = new PrismaBunSQLiteAdapter(new Database(":memory:"));
+
+    await adapter.queryRaw({ sql: "SELECT 1", args: [], argTypes: [] });
+    const tx = await adapter.startTransaction();
+    await tx.queryRaw({ sql: "SELECT 1", args: [], argTypes: [] });
+    await tx.commit();
+
+    expect(adapter.getStatementCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+
+    await adapter.dispose();
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "bun:test";
+import { getFromTable, getNames, getReturningTable, isReadOnlyQuery, parseTransactionControl, quoteIdentifier, splitStatements } from "../src/statements";
+
+describe("splitStatements", () => {
+  it("should split simple statements and report their offsets", () => {
+    const script = "CREATE TABLE a (id INTEGER);\n  INSERT INTO a VALUES (1);";
+    const statements = splitStatements(script);
+
+    expect(statements.map(s => s.sql)).toEqual([
+      "CREATE TABLE a (id INTEGER)",
+      "INSERT INTO a VALUES (1)",
+    ]);
+    for (const { sql, start, end } of statements) {
+      expect(script.slice(start, end)).toBe(sql);
+    }
+  });
+
+  it("should keep a final statement without terminating semicolon", () => {
+    expect(splitStatements("SELECT 1; SELECT 2").map(s => s.sql)).toEqual(["SELECT 1", "SELECT 2"]);
+  });
+
+  it("should ignore semicolons inside string literals and quoted identifiers", () => {
+    const statements = splitStatements(`
+      CREATE TABLE "odd;name" ("a;b" TEXT DEFAULT 'x;y', [c;d] TEXT, \`e;f\` TEXT);
+      INSERT INTO "odd;name" ("a;b") VALUES ('it''s; fine');
+    `);
+
+    expect(statements).toHaveLength(2);
+    expect(statements[0].sql).toContain(`DEFAULT 'x;y'`);
+    expect(statements[1].sql).toContain(`'it''s; fine'`);
+  });
+
+  it("should ignore semicolons inside comments and drop comment-only chunks", () => {
+    const statements = splitStatements(`
+      -- leading comment; with a semicolon
+      CREATE TABLE a (id INTEGER); -- trailing comment;
+      /* block; comment */
+      INSERT INTO a /* inline; */ VALUES (1);
+      -- only a comment;
+    `);
+
+    expect(statements.map(s => s.sql)).toEqual([
+      "CREATE TABLE a (id INTEGER)",
+      "INSERT INTO a /* inline; */ VALUES (1)",
+    ]);
+  });
+
+  it("should keep CREATE TRIGGER bodies together", () => {
+    const statements = splitStatements(`
+      CREATE TABLE a (id INTEGER, updated_at DATETIME);
+      CREATE TEMP TRIGGER a_touch AFTER UPDATE ON a
+      BEGIN
+        UPDATE a SET updated_at = CASE WHEN 1 THEN CURRENT_TIMESTAMP END WHERE id = NEW.id;
+        SELECT RAISE(IGNORE) WHERE NEW.id IS NULL;
+      END;
+      INSERT INTO a (id) VALUES (1);
+    `);
+
+    expect(statements).toHaveLength(3);
+    expect(statements[1].sql).toStartWith("CREATE TEMP TRIGGER a_touch");
+    expect(statements[1].sql).toEndWith("END");
+    expect(statements[2].sql).toBe("INSERT INTO a (id) VALUES (1)");
+  });
+
+  it("should not treat columns named trigger or end as trigger syntax", () => {
+    const statements = splitStatements(`
+      CREATE TABLE "trigger" ("end" TEXT);
+      SELECT "end" FROM "trigger";
+    `);
+
+    expect(statements).toHaveLength(2);
+  });
+
+  it("should return no statements for empty or comment-only scripts", () => {
+    expect(splitStatements("")).toEqual([]);
+    expect(splitStatements("  ;; -- nothing\n /* here */ ")).toEqual([]);
+  });
+});
+
+describe("getReturningTable", () => {
+  it("should return the target table of DML statements with RETURNING", () => {
+    expect(getReturningTable(`INSERT INTO "User" ("email") VALUES (?) RETURNING "id", "email"`)).toEqual({ schema: null, name: "User" });
+    expect(getReturningTable(`INSERT OR REPLACE INTO main.users (id) VALUES (1) RETURNING *`)).toEqual({ schema: "main", name: "users" });
+    expect(getReturningTable(`REPLACE INTO [Order] (id) VALUES (1) RETURNING id`)).toEqual({ schema: null, name: "Order" });
+    expect(getReturningTable(`UPDATE OR IGNORE \`Post\` SET title = 'x' RETURNING title`)).toEqual({ schema: null, name: "Post" });
+    expect(getReturningTable(`DELETE FROM "we""ird" WHERE id = 1 RETURNING id`)).toEqual({ schema: null, name: `we"ird` });
+    expect(getReturningTable(`DELETE FROM "archive"."Order" WHERE id = 1 RETURNING id`)).toEqual({ schema: "archive", name: "Order" });
+  });
+
+  it("should skip CTEs, column lists and upsert clauses", () => {
+    expect(getReturningTable(`
+      WITH src AS (SELECT 1 AS id FROM "Other")
+      INSERT INTO "User" ("id") SELECT id FROM src WHERE true
+      ON CONFLICT ("id") DO UPDATE SET "id" = excluded."id"
+      RETURNING "id"
+    `)).toEqual({ schema: null, name: "User" });
+  });
+
+  it("should return null for statements without RETURNING", () => {
+    expect(getReturningTable(`INSERT INTO "User" ("email") VALUES ('returning')`)).toBeNull();
+    expect(getReturningTable(`SELECT "returning" FROM "User"`)).toBeNull();
+    expect(getReturningTable(`UPDATE "User" SET "email" = ? WHERE "id" = ?`)).toBeNull();
+  });
+});
+
+describe("isReadOnlyQuery", () => {
+  it("should accept plain queries", () => {
+    expect(isReadOnlyQuery(`SELECT * FROM "User" WHERE "id" = ?`)).toBe(true);
+    expect(isReadOnlyQuery(`  -- comment\n  select 1;`)).toBe(true);
+    expect(isReadOnlyQuery(`VALUES (1), (2)`)).toBe(true);
+    expect(isReadOnlyQuery(`WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 3) SELECT x FROM n`)).toBe(true);
+  });
+
+  it("should reject statements that write or change connection state", () => {
+    expect(isReadOnlyQuery(`INSERT INTO "User" ("email") VALUES ('select') RETURNING "id"`)).toBe(false);
+    expect(isReadOnlyQuery(`WITH src AS (SELECT 1 AS id) DELETE FROM "User" WHERE id IN (SELECT id FROM src)`)).toBe(false);
+    expect(isReadOnlyQuery(`PRAGMA table_info("User")`)).toBe(false);
+    expect(isReadOnlyQuery(`BEGIN`)).toBe(false);
+    expect(isReadOnlyQuery(`SELECT 1; DELETE FROM "User"`)).toBe(false);
+    expect(isReadOnlyQuery(``)).toBe(false);
+  });
+});
+
+describe("parseTransactionControl", () => {
+  it("should recognise transaction boundaries", () => {
+    expect(parseTransactionControl("BEGIN IMMEDIATE TRANSACTION")).toEqual({ kind: "begin" });
+    expect(parseTransactionControl("commit;")).toEqual({ kind: "commit" });
+    expect(parseTransactionControl("END TRANSACTION")).toEqual({ kind: "commit" });
+    expect(parseTransactionControl("  ROLLBACK  ")).toEqual({ kind: "rollback" });
+  });
+
+  it("should recognise savepoint statements", () => {
+    expect(parseTransactionControl("SAVEPOINT sp1")).toEqual({ kind: "savepoint", name: "sp1" });
+    expect(parseTransactionControl(`RELEASE "my sp"`)).toEqual({ kind: "release", name: "my sp" });
+    expect(parseTransactionControl("RELEASE SAVEPOINT sp1")).toEqual({ kind: "release", name: "sp1" });
+    expect(parseTransactionControl("ROLLBACK TRANSACTION TO SAVEPOINT sp1")).toEqual({ kind: "rollbackTo", name: "sp1" });
+    expect(parseTransactionControl("rollback to sp1")).toEqual({ kind: "rollbackTo", name: "sp1" });
+  });
+
+  it("should return null for other statements", () => {
+    expect(parseTransactionControl("SELECT 1")).toBeNull();
+    expect(parseTransactionControl("COMMIT; SELECT 1")).toBeNull();
+    expect(parseTransactionControl("SAVEPOINT")).toBeNull();
+    expect(parseTransactionControl("")).toBeNull();
+  });
+});
+
+describe("getFromTable", () => {
+  it("should return the table of the first FROM", () => {
+    expect(getFromTable(`SELECT * FROM "User" WHERE id = 1`)).toEqual({ schema: null, name: "User" });
+    expect(getFromTable(`SELECT * FROM archive."Order" o JOIN "User" u ON u.id = o.userId`)).toEqual({ schema: "archive", name: "Order" });
+    expect(getFromTable(`SELECT * FROM "arch""ive".[Order]`)).toEqual({ schema: `arch"ive`, name: "Order" });
+  });
+
+  it("should ignore FROM inside literals and subqueries without a table", () => {
+    expect(getFromTable(`SELECT 'from x' AS label`)).toBeNull();
+    expect(getFromTable(`SELECT * FROM (SELECT 1)`)).toBeNull();
+  });
+});
+
+describe("getNames", () => {
+  it("should return lower-cased words and identifiers outside literals", () => {
+    expect(getNames(`SELECT "Tmp".x FROM temp.[Tmp] WHERE y = 'Other'`)).toEqual(new Set(["select", "tmp", "x", "from", "temp", "where", "y"]));
+  });
+});
+
+describe("quoteIdentifier", () => {
+  it("should quote and escape identifiers", () => {
+    expect(quoteIdentifier("Order")).toBe(`"Order"`);
+    expect(quoteIdentifier(`we"ird`)).toBe(`"we""ird"`);
+  });
+});
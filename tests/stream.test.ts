@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { ColumnTypeEnum, DriverAdapterError, SqlResultSet } from "@prisma/driver-adapter-utils";
+import { PrismaBunSQLiteAdapter, PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { query } from "./helpers";
+
+const collect = async (stream: AsyncIterable<SqlResultSet>) => {
+  const batches: SqlResultSet[] = [];
+  for await (const batch of stream) {
+    batches.push(batch);
+  }
+  return batches;
+};
+
+describe("queryStream", () => {
+  let db: Database;
+  let adapter: PrismaBunSQLiteAdapter;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    adapter = new PrismaBunSQLiteAdapter(db, { transactionAcquireTimeout: 200 });
+    await adapter.executeScript(`
+      CREATE TABLE item (id INTEGER PRIMARY KEY, name TEXT, active BOOLEAN, created_at DATETIME);
+      WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 2500)
+      INSERT INTO item SELECT x, 'item ' || x, x % 2, '2024-01-01 00:00:00' FROM n;
+    `);
+  });
+
+  afterEach(async () => {
+    await adapter.dispose();
+  });
+
+  it("should return the rows of queryRaw in batches", async () => {
+    const sql = "SELECT id, name, active, created_at FROM item ORDER BY id";
+
+    const batches = await collect(adapter.queryStream(query(sql)));
+    const whole = await adapter.queryRaw(query(sql));
+
+    expect(batches.map((batch) => batch.rows.length)).toEqual([1000, 1000, 500]);
+    expect(batches.flatMap((batch) => batch.rows)).toEqual(whole.rows);
+    for (const batch of batches) {
+      expect(batch.columnNames).toEqual(whole.columnNames);
+      expect(batch.columnTypes).toEqual(whole.columnTypes);
+    }
+  });
+
+  it("should honour batchSize", async () => {
+    const batches = await collect(adapter.queryStream(query("SELECT id FROM item WHERE id <= 5"), { batchSize: 2 }));
+
+    expect(batches.map((batch) => batch.rows)).toEqual([[[1], [2]], [[3], [4]], [[5]]]);
+  });
+
+  it("should keep the column types of the first batch", async () => {
+    // The expression has no declared type and is NULL throughout the first batch
+    const batches = await collect(adapter.queryStream(
+      query("SELECT CASE WHEN id > 2 THEN name END AS label FROM item WHERE id <= 4 ORDER BY id"),
+      { batchSize: 2 },
+    ));
+
+    expect(batches.map((batch) => batch.columnTypes)).toEqual([[ColumnTypeEnum.Int32], [ColumnTypeEnum.Int32]]);
+    expect(batches[1].rows).toEqual([["item 3"], ["item 4"]]);
+  });
+
+  it("should yield nothing for an empty result", async () => {
+    expect(await collect(adapter.queryStream(query("SELECT id FROM item WHERE id < 0")))).toEqual([]);
+  });
+
+  it("should hold the lock until the stream ends", async () => {
+    const stream = adapter.queryStream(query("SELECT id FROM item"), { batchSize: 10 });
+    await stream.next();
+
+    await expect(adapter.startTransaction()).rejects.toThrow(DriverAdapterError);
+
+    await stream.return(undefined);
+    const tx = await adapter.startTransaction();
+    await tx.rollback();
+  });
+
+  it("should release the lock when the consumer breaks out", async () => {
+    for await (const batch of adapter.queryStream(query("SELECT id FROM item"), { batchSize: 10 })) {
+      expect(batch.rows).toHaveLength(10);
+      break;
+    }
+
+    const tx = await adapter.startTransaction();
+    await tx.rollback();
+  });
+
+  it("should surface SQLite errors as adapter errors", async () => {
+    try {
+      await collect(adapter.queryStream(query("SELECT * FROM missing")));
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause.kind).toBe("TableDoesNotExist");
+    }
+  });
+
+  it("should interrupt a stream past its timeout", async () => {
+    const stream = adapter.queryStream(query("SELECT id FROM item"), { batchSize: 1, timeout: 10 });
+    await stream.next();
+    await Bun.sleep(20);
+
+    try {
+      await stream.next();
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause).toMatchObject({ kind: "sqlite", extendedCode: 9 });
+    }
+    // The lock was released with the stream
+    await (await adapter.startTransaction()).rollback();
+  });
+
+  it("should reject an invalid batch size", async () => {
+    await expect(adapter.queryStream(query("SELECT 1"), { batchSize: 0 }).next()).rejects.toThrow(DriverAdapterError);
+  });
+
+  it("should stream inside a transaction", async () => {
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("DELETE FROM item WHERE id > 3"));
+
+    const batches = await collect(tx.queryStream(query("SELECT id FROM item ORDER BY id"), { batchSize: 2 }));
+    expect(batches.flatMap((batch) => batch.rows)).toEqual([[1], [2], [3]]);
+
+    await tx.rollback();
+  });
+
+  it("should stop a transaction stream once the transaction ended", async () => {
+    const tx = await adapter.startTransaction();
+    const stream = tx.queryStream(query("SELECT id FROM item"), { batchSize: 10 });
+    await stream.next();
+    await tx.commit();
+
+    try {
+      await stream.next();
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause.kind).toBe("TransactionAlreadyClosed");
+    }
+  });
+});
+
+describe("queryStream in worker mode", () => {
+  it("should stream batches from the worker", async () => {
+    const adapter = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true }).connect();
+    await adapter.executeScript(`
+      CREATE TABLE item (id INTEGER PRIMARY KEY);
+      WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 25) INSERT INTO item SELECT x FROM n;
+    `);
+
+    const batches = await collect(adapter.queryStream(query("SELECT id FROM item ORDER BY id"), { batchSize: 10 }));
+    expect(batches.map((batch) => batch.rows.length)).toEqual([10, 10, 5]);
+
+    // Breaking out closes the stream in the worker and frees the lock
+    for await (const _ of adapter.queryStream(query("SELECT id FROM item"), { batchSize: 10 })) {
+      break;
+    }
+    const tx = await adapter.startTransaction();
+    await tx.rollback();
+
+    await adapter.dispose();
+  });
+});
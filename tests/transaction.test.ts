@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import { Database } from "bun:sqlite";
-import { PrismaBunSQLiteAdapter } from "../src/adapter";
+import { BunSQLiteTransactionOptions, PrismaBunSQLiteAdapter } from "../src/adapter";
 import { DriverAdapterError } from "@prisma/driver-adapter-utils";
 
 describe("Transaction Tests", () => {
@@ -48,6 +48,44 @@ describe("Transaction Tests", () => {
       await transaction.rollback();
     });
 
+    it("should begin DEFERRED transactions by default", async () => {
+      const transaction = await adapter.startTransaction();
+
+      expect((transaction.options as BunSQLiteTransactionOptions).mode).toBe("DEFERRED");
+
+      await transaction.rollback();
+    });
+
+    it("should accept a per-transaction BEGIN mode", async () => {
+      const immediate = await adapter.startTransaction(undefined, { mode: "IMMEDIATE" });
+      expect((immediate.options as BunSQLiteTransactionOptions).mode).toBe("IMMEDIATE");
+      await immediate.rollback();
+
+      const exclusive = await adapter.startTransaction("SERIALIZABLE", { mode: "EXCLUSIVE" });
+      expect((exclusive.options as BunSQLiteTransactionOptions).mode).toBe("EXCLUSIVE");
+      await exclusive.rollback();
+    });
+
+    it("should use the adapter default BEGIN mode", async () => {
+      const immediateAdapter = new PrismaBunSQLiteAdapter(new Database(":memory:"), { transactionMode: "IMMEDIATE" });
+      const transaction = await immediateAdapter.startTransaction();
+
+      expect((transaction.options as BunSQLiteTransactionOptions).mode).toBe("IMMEDIATE");
+
+      await transaction.rollback();
+      await immediateAdapter.dispose();
+    });
+
+    it("should reject unknown BEGIN modes", async () => {
+      expect(() => new PrismaBunSQLiteAdapter(new Database(":memory:"), { transactionMode: "LAZY" as any }))
+        .toThrow(DriverAdapterError);
+      await expect(adapter.startTransaction(undefined, { mode: "LAZY" as any })).rejects.toThrow(DriverAdapterError);
+
+      // A rejected mode must not keep the lock
+      const transaction = await adapter.startTransaction();
+      await transaction.rollback();
+    });
+
     it("should reject unsupported isolation levels", async () => {
       await expect(adapter.startTransaction("READ_COMMITTED" as any)).rejects.toThrow();
       await expect(adapter.startTransaction("READ_UNCOMMITTED" as any)).rejects.toThrow();
@@ -374,4 +412,301 @@ describe("Transaction Tests", () => {
       await expect(transaction.commit()).resolves.toBeUndefined();
     });
   });
-});
\ No newline at end of file
+  describe("nested transactions", () => {
+    const balance = async (name: string) => {
+      const result = await adapter.queryRaw({
+        sql: "SELECT balance FROM accounts WHERE name = ?",
+        args: [name],
+        argTypes: [{ scalarType: "string", arity: "scalar" }]
+      });
+      return result.rows[0][0];
+    };
+
+    const debit = (tx: { executeRaw: PrismaBunSQLiteAdapter["executeRaw"] }, amount: number) =>
+      tx.executeRaw({
+        sql: "UPDATE accounts SET balance = balance - ? WHERE name = 'Alice'",
+        args: [String(amount)],
+        argTypes: [{ scalarType: "int", arity: "scalar" }]
+      });
+
+    it("should commit nested work with the outer transaction", async () => {
+      const outer = await adapter.startTransaction();
+      const inner = await outer.startNestedTransaction();
+
+      await debit(inner, 100);
+      await inner.commit();
+      await debit(outer, 50);
+      await outer.commit();
+
+      expect(await balance("Alice")).toBe(850);
+    });
+
+    it("should roll back only the nested work", async () => {
+      const outer = await adapter.startTransaction();
+      await debit(outer, 50);
+
+      const inner = await outer.startNestedTransaction();
+      await debit(inner, 100);
+      await inner.rollback();
+
+      await outer.commit();
+
+      expect(await balance("Alice")).toBe(950);
+    });
+
+    it("should nest several levels without waiting on the adapter lock", async () => {
+      const outer = await adapter.startTransaction();
+      const level1 = await outer.startNestedTransaction();
+      const level2 = await level1.startNestedTransaction();
+      const level3 = await level2.startNestedTransaction();
+
+      await debit(level3, 1);
+      await level3.commit();
+      await debit(level2, 10);
+      await level2.rollback();
+      await debit(level1, 100);
+      await level1.commit();
+      await outer.commit();
+
+      // level3 was released into level2, so rolling back level2 discards it too
+      expect(await balance("Alice")).toBe(900);
+    });
+
+    it("should close inner savepoints when an outer one ends", async () => {
+      const outer = await adapter.startTransaction();
+      const level1 = await outer.startNestedTransaction();
+      const level2 = await level1.startNestedTransaction();
+
+      await debit(level2, 100);
+      await level1.rollback();
+
+      await expect(debit(level2, 1)).rejects.toThrow(DriverAdapterError);
+      await expect(level2.commit()).resolves.toBeUndefined();
+
+      await outer.commit();
+      await expect(debit(outer, 1)).rejects.toThrow(DriverAdapterError);
+
+      expect(await balance("Alice")).toBe(1000);
+    });
+
+    it("should close nested transactions when the outer transaction ends", async () => {
+      const outer = await adapter.startTransaction();
+      const inner = await outer.startNestedTransaction();
+
+      await debit(inner, 100);
+      await outer.rollback();
+
+      try {
+        await debit(inner, 1);
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect((error as DriverAdapterError).cause.kind).toBe("TransactionAlreadyClosed");
+      }
+      expect(await balance("Alice")).toBe(1000);
+
+      // The lock was released, a new transaction can start
+      const next = await adapter.startTransaction();
+      await next.rollback();
+    });
+
+    it("should track raw SAVEPOINT, RELEASE and ROLLBACK TO statements", async () => {
+      const outer = await adapter.startTransaction();
+      const inner = await outer.startNestedTransaction();
+
+      await outer.executeRaw({ sql: "SAVEPOINT manual", args: [], argTypes: [] });
+      await debit(outer, 100);
+      await outer.executeRaw({ sql: "ROLLBACK TO SAVEPOINT manual", args: [], argTypes: [] });
+      await debit(outer, 10);
+      await outer.executeRaw({ sql: "RELEASE manual", args: [], argTypes: [] });
+
+      // RELEASE of the nested transaction's savepoint ends it as well
+      await outer.executeRaw({ sql: `RELEASE SAVEPOINT "${(inner as any).name}"`, args: [], argTypes: [] });
+      await expect(debit(inner, 1)).rejects.toThrow(DriverAdapterError);
+
+      await outer.commit();
+
+      expect(await balance("Alice")).toBe(990);
+    });
+
+    it("should map raw COMMIT and ROLLBACK in a nested transaction to the savepoint", async () => {
+      const outer = await adapter.startTransaction();
+      const committed = await outer.startNestedTransaction();
+      await debit(committed, 100);
+      await committed.executeRaw({ sql: "COMMIT", args: [], argTypes: [] });
+
+      const rolledBack = await outer.startNestedTransaction();
+      await debit(rolledBack, 10);
+      await rolledBack.executeRaw({ sql: "ROLLBACK", args: [], argTypes: [] });
+
+      await debit(outer, 1);
+      await outer.commit();
+
+      expect(await balance("Alice")).toBe(899);
+    });
+  });
+  describe("transaction timeouts", () => {
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+    const debitAlice = {
+      sql: "UPDATE accounts SET balance = balance - 100 WHERE name = 'Alice'",
+      args: [],
+      argTypes: []
+    };
+    const aliceBalance = () => db.query("SELECT balance FROM accounts WHERE name = 'Alice'").values()[0][0];
+
+    it("should roll back and release the lock when a transaction exceeds its timeout", async () => {
+      const timedAdapter = new PrismaBunSQLiteAdapter(db, { transactionTimeout: 20 });
+      const transaction = await timedAdapter.startTransaction();
+      const nested = await transaction.startNestedTransaction();
+      await transaction.executeRaw(debitAlice);
+
+      await sleep(50);
+
+      expect(aliceBalance()).toBe(1000);
+      for (const tx of [transaction, nested]) {
+        try {
+          await tx.queryRaw({ sql: "SELECT 1", args: [], argTypes: [] });
+          expect.unreachable("Should have thrown error");
+        } catch (error) {
+          expect((error as DriverAdapterError).cause.kind).toBe("TransactionAlreadyClosed");
+          expect((error as any).cause.cause).toContain("20ms timeout");
+        }
+      }
+
+      // Committing would otherwise pretend the rolled back work was saved
+      await expect(transaction.commit()).rejects.toThrow(DriverAdapterError);
+      await expect(transaction.rollback()).resolves.toBeUndefined();
+
+      const next = await timedAdapter.startTransaction();
+      await next.executeRaw(debitAlice);
+      await next.commit();
+      expect(aliceBalance()).toBe(900);
+    });
+
+    it("should fail committing a nested transaction after the outer one timed out", async () => {
+      const timedAdapter = new PrismaBunSQLiteAdapter(db, { transactionTimeout: 20 });
+      const transaction = await timedAdapter.startTransaction();
+      const nested = await transaction.startNestedTransaction();
+      await nested.executeRaw(debitAlice);
+
+      await sleep(50);
+
+      try {
+        await nested.commit();
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect((error as DriverAdapterError).cause.kind).toBe("TransactionAlreadyClosed");
+        expect((error as any).cause.cause).toContain("20ms timeout");
+      }
+      await expect(nested.rollback()).resolves.toBeUndefined();
+      expect(aliceBalance()).toBe(1000);
+    });
+
+    it("should allow overriding the timeout per transaction", async () => {
+      const transaction = await adapter.startTransaction(undefined, { timeout: 10 });
+
+      await sleep(30);
+
+      await expect(transaction.executeRaw(debitAlice)).rejects.toThrow(DriverAdapterError);
+    });
+
+    it("should not touch transactions that finish in time", async () => {
+      const timedAdapter = new PrismaBunSQLiteAdapter(db, { transactionTimeout: 40 });
+      const transaction = await timedAdapter.startTransaction();
+      await transaction.executeRaw(debitAlice);
+      await transaction.commit();
+
+      const next = await timedAdapter.startTransaction();
+      await sleep(10);
+      await next.executeRaw(debitAlice);
+      await next.commit();
+
+      // Neither transaction's timer fires after it finished
+      await sleep(60);
+      const last = await timedAdapter.startTransaction();
+      await last.executeRaw(debitAlice);
+      await last.commit();
+
+      expect(aliceBalance()).toBe(700);
+    });
+
+    it("should fail startTransaction when the lock cannot be acquired in time", async () => {
+      const timedAdapter = new PrismaBunSQLiteAdapter(db, { transactionAcquireTimeout: 20 });
+      const holder = await timedAdapter.startTransaction();
+
+      try {
+        await timedAdapter.startTransaction();
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DriverAdapterError);
+        expect((error as DriverAdapterError).cause.kind).toBe("GenericJs");
+        expect((error as any).cause.originalMessage).toContain("Timed out after 20ms");
+      }
+
+      await holder.commit();
+
+      // The timed out waiter must not hold on to the lock once it frees up
+      const next = await timedAdapter.startTransaction();
+      await next.rollback();
+    });
+  });
+  describe("standalone queries during a transaction", () => {
+    const creditBob = {
+      sql: "UPDATE accounts SET balance = balance + 10 WHERE name = 'Bob'",
+      args: [],
+      argTypes: []
+    };
+    const bobBalance = () => db.query("SELECT balance FROM accounts WHERE name = 'Bob'").values()[0][0];
+
+    it("should not let a standalone write join an open transaction", async () => {
+      const transaction = await adapter.startTransaction();
+      await transaction.executeRaw({
+        sql: "UPDATE accounts SET balance = 0 WHERE name = 'Alice'",
+        args: [],
+        argTypes: []
+      });
+
+      const standalone = adapter.executeRaw(creditBob);
+      await Bun.sleep(5);
+      expect(bobBalance()).toBe(500); // still waiting for the transaction
+
+      await transaction.rollback();
+      expect(await standalone).toBe(1);
+
+      // The standalone write survived the rollback
+      expect(bobBalance()).toBe(510);
+    });
+
+    it("should run standalone reads after the transaction commits", async () => {
+      const transaction = await adapter.startTransaction();
+      await transaction.executeRaw(creditBob);
+
+      const events: string[] = [];
+      const read = adapter.queryRaw({
+        sql: "SELECT balance FROM accounts WHERE name = 'Bob'",
+        args: [],
+        argTypes: []
+      }).then((result) => {
+        events.push("read");
+        return result;
+      });
+
+      await Bun.sleep(5);
+      events.push("commit");
+      await transaction.commit();
+
+      expect((await read).rows[0][0]).toBe(510);
+      expect(events).toEqual(["commit", "read"]);
+    });
+
+    it("should fail standalone queries that wait longer than the acquire timeout", async () => {
+      const timedAdapter = new PrismaBunSQLiteAdapter(db, { transactionAcquireTimeout: 10 });
+      const transaction = await timedAdapter.startTransaction();
+
+      await expect(timedAdapter.executeRaw(creditBob)).rejects.toThrow(DriverAdapterError);
+      await expect(timedAdapter.executeScript("SELECT 1;")).rejects.toThrow(DriverAdapterError);
+
+      await transaction.commit();
+      expect(await timedAdapter.executeRaw(creditBob)).toBe(1);
+    });
+  });
+});
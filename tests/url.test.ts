@@ -0,0 +1,85 @@
+import { describe, it, expect } from "bun:test";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { parseDatabaseUrl } from "../src/url";
+
+const errorMessage = (url: string) => {
+  try {
+    parseDatabaseUrl(url);
+  } catch (error) {
+    expect(error).toBeInstanceOf(DriverAdapterError);
+    return (error as any).cause.originalMessage as string;
+  }
+  throw new Error(`Expected ${url} to be rejected`);
+};
+
+describe("parseDatabaseUrl", () => {
+  it("should use plain paths and :memory: as they are", () => {
+    expect(parseDatabaseUrl(":memory:")).toEqual({ filename: ":memory:", readonly: false, create: true, options: {} });
+    expect(parseDatabaseUrl("./data/dev.db").filename).toBe("./data/dev.db");
+    expect(parseDatabaseUrl("").filename).toBe("");
+  });
+
+  it("should resolve file: paths", () => {
+    expect(parseDatabaseUrl("file:dev.db").filename).toBe("dev.db");
+    expect(parseDatabaseUrl("file:./dev.db").filename).toBe("./dev.db");
+    expect(parseDatabaseUrl("file:/var/data/dev.db").filename).toBe("/var/data/dev.db");
+    expect(parseDatabaseUrl("file:///var/data/dev.db").filename).toBe("/var/data/dev.db");
+    expect(parseDatabaseUrl("file://localhost/var/data/dev.db").filename).toBe("/var/data/dev.db");
+    expect(parseDatabaseUrl("file://dev.db").filename).toBe("dev.db");
+    expect(parseDatabaseUrl("file::memory:").filename).toBe(":memory:");
+  });
+
+  it("should decode the path and ignore the fragment", () => {
+    expect(parseDatabaseUrl("file:my%20data.db?mode=ro#main").filename).toBe("my data.db");
+    expect(parseDatabaseUrl("file:what%3F.db").filename).toBe("what?.db");
+  });
+
+  it("should map mode to open flags", () => {
+    expect(parseDatabaseUrl("file:dev.db?mode=ro")).toMatchObject({ readonly: true, create: false });
+    expect(parseDatabaseUrl("file:dev.db?mode=rw")).toMatchObject({ readonly: false, create: false });
+    expect(parseDatabaseUrl("file:dev.db?mode=rwc")).toMatchObject({ readonly: false, create: true });
+    expect(parseDatabaseUrl("file:dev.db?mode=memory").filename).toBe(":memory:");
+  });
+
+  it("should open immutable databases read-only", () => {
+    expect(parseDatabaseUrl("file:dev.db?immutable=1")).toMatchObject({ readonly: true, create: false });
+    expect(parseDatabaseUrl("file:dev.db?immutable=0")).toMatchObject({ readonly: false, create: true });
+  });
+
+  it("should map Prisma parameters onto adapter options", () => {
+    const location = parseDatabaseUrl(
+      "file:dev.db?mode=ro&cache=shared&connection_limit=3&socket_timeout=5&pool_timeout=2.5&statement_cache_size=0",
+    );
+
+    expect(location).toEqual({
+      filename: "dev.db",
+      readonly: true,
+      create: false,
+      busyTimeout: 5000,
+      options: { readPoolSize: 2, transactionAcquireTimeout: 2500, statementCacheSize: 0 },
+    });
+  });
+
+  it("should reject unknown parameters", () => {
+    expect(errorMessage("file:dev.db?conection_limit=1")).toStartWith("Unknown database URL parameter: conection_limit");
+  });
+
+  it("should reject parameters bun:sqlite can't honour", () => {
+    expect(errorMessage("file:dev.db?vfs=unix-dotfile")).toBe("Database URL parameter vfs is not supported by bun:sqlite");
+  });
+
+  it("should reject invalid values", () => {
+    for (const url of [
+      "file:dev.db?mode=readonly",
+      "file:dev.db?cache=none",
+      "file:dev.db?immutable=maybe",
+      "file:dev.db?connection_limit=0",
+      "file:dev.db?connection_limit=1.5",
+      "file:dev.db?socket_timeout=-1",
+      "file:dev.db?pool_timeout=",
+      "file:dev%ZZ.db",
+    ]) {
+      expect(errorMessage(url)).toBeString();
+    }
+  });
+});
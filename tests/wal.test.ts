@@ -1,5 +1,7 @@
-import { describe, expect, test, beforeEach, afterEach } from "bun:test";
-import { PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+import { describe, expect, test, beforeEach, afterEach, spyOn } from "bun:test";
+import { statSync } from "fs";
+import { DriverAdapterError, SqlDriverAdapter } from "@prisma/driver-adapter-utils";
+import { PrismaBunSQLiteAdapter, PrismaBunSQLiteAdapterFactory, WALConfig } from "../src/adapter";
 
 describe("WAL Mode Configuration", () => {
   let tempDbPath: string;
@@ -349,4 +351,272 @@ describe("WAL Mode Configuration", () => {
       }
     }
   });
-});
\ No newline at end of file
+
+  describe("journal modes", () => {
+    const journalMode = async (adapter: SqlDriverAdapter) => {
+      const result = await adapter.queryRaw({ sql: "PRAGMA journal_mode", args: [], argTypes: [] });
+      return result.rows[0][0];
+    };
+
+    test("should set and verify every journal mode", async () => {
+      for (const mode of ["TRUNCATE", "PERSIST", "MEMORY", "WAL", "DELETE"] as const) {
+        const adapter = await new PrismaBunSQLiteAdapterFactory({ url: tempDbPath, journalMode: mode }).connect();
+
+        expect(await journalMode(adapter)).toBe(mode.toLowerCase());
+
+        await adapter.dispose();
+      }
+    });
+
+    test("should switch a WAL database back to DELETE", async () => {
+      const wal = await new PrismaBunSQLiteAdapterFactory({ url: tempDbPath, walMode: true }).connect();
+      await wal.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY); INSERT INTO item VALUES (1);");
+      await wal.dispose();
+
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: tempDbPath, journalMode: "DELETE" }).connect();
+
+      expect(await journalMode(adapter)).toBe("delete");
+      const result = await adapter.queryRaw({ sql: "SELECT id FROM item", args: [], argTypes: [] });
+      expect(result.rows).toEqual([["1"]]);
+      await adapter.dispose();
+    });
+
+    test("should fail to leave WAL mode while another connection is open", async () => {
+      const wal = await new PrismaBunSQLiteAdapterFactory({ url: tempDbPath, walMode: true }).connect();
+      await wal.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY)");
+
+      try {
+        await new PrismaBunSQLiteAdapterFactory({ url: tempDbPath, journalMode: "DELETE" }).connect();
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DriverAdapterError);
+        expect((error as DriverAdapterError).cause).toMatchObject({
+          kind: "GenericJs",
+          originalMessage: expect.stringContaining("another connection has the database open"),
+        });
+      }
+
+      expect(await journalMode(wal)).toBe("wal");
+      await wal.dispose();
+    });
+
+    test("should fail when the journal mode doesn't take effect", async () => {
+      try {
+        await new PrismaBunSQLiteAdapterFactory({ url: tempDbPath, journalMode: "OFF" }).connect();
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect((error as DriverAdapterError).cause).toMatchObject({
+          kind: "GenericJs",
+          originalMessage: expect.stringContaining("Failed to set journal mode OFF"),
+        });
+      }
+    });
+
+    test("should keep MEMORY for in-memory databases", async () => {
+      const adapter = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", journalMode: "TRUNCATE" }).connect();
+
+      expect(await journalMode(adapter)).toBe("memory");
+      await adapter.dispose();
+    });
+
+    test("should reject invalid journal modes", async () => {
+      const factory = new PrismaBunSQLiteAdapterFactory({ url: tempDbPath, journalMode: "ROLLBACK" as any });
+
+      await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+    });
+
+    test("should reject a journal mode conflicting with walMode", async () => {
+      const factory = new PrismaBunSQLiteAdapterFactory({ url: tempDbPath, walMode: true, journalMode: "DELETE" });
+
+      await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+    });
+  });
+
+  describe("checkpoints", () => {
+    const connect = async (walMode: WALConfig = { enabled: true }) =>
+      (await new PrismaBunSQLiteAdapterFactory({ url: tempDbPath, walMode }).connect()) as PrismaBunSQLiteAdapter;
+    const walSize = () => statSync(tempDbPath + "-wal").size;
+    const write = (adapter: PrismaBunSQLiteAdapter) =>
+      adapter.executeScript(`
+        CREATE TABLE IF NOT EXISTS item (id INTEGER PRIMARY KEY, name TEXT);
+        INSERT INTO item (name) VALUES ('a'), ('b'), ('c');
+      `);
+
+    test("should report the frames of the WAL and those checkpointed", async () => {
+      const adapter = await connect();
+      await write(adapter);
+
+      const result = await adapter.checkpoint();
+      expect(result.busy).toBe(false);
+      expect(result.log).toBeGreaterThan(0);
+      expect(result.checkpointed).toBe(result.log);
+
+      await adapter.dispose();
+    });
+
+    test("should empty the WAL file with TRUNCATE", async () => {
+      const adapter = await connect();
+      await write(adapter);
+      expect(walSize()).toBeGreaterThan(0);
+
+      expect(await adapter.checkpoint("TRUNCATE")).toEqual({ busy: false, log: 0, checkpointed: 0 });
+      expect(walSize()).toBe(0);
+
+      await adapter.dispose();
+    });
+
+    test("should wait for an open transaction", async () => {
+      const adapter = await connect();
+      await write(adapter);
+
+      const tx = await adapter.startTransaction();
+      let done = false;
+      const checkpoint = adapter.checkpoint("TRUNCATE").then(() => { done = true; });
+      await Bun.sleep(20);
+      expect(done).toBe(false);
+
+      await tx.commit();
+      await checkpoint;
+      expect(walSize()).toBe(0);
+
+      await adapter.dispose();
+    });
+
+    test("should report -1 frames outside WAL mode", async () => {
+      const adapter = (await new PrismaBunSQLiteAdapterFactory({ url: tempDbPath }).connect()) as PrismaBunSQLiteAdapter;
+
+      expect(await adapter.checkpoint("FULL")).toEqual({ busy: false, log: -1, checkpointed: -1 });
+      await adapter.dispose();
+    });
+
+    test("should reject invalid checkpoint modes", async () => {
+      const adapter = await connect();
+
+      await expect(adapter.checkpoint("NOW" as any)).rejects.toThrow(DriverAdapterError);
+      await adapter.dispose();
+    });
+
+    test("should checkpoint in the background on an interval", async () => {
+      const adapter = await connect({ enabled: true, checkpoint: { interval: 10, mode: "TRUNCATE" } });
+      await write(adapter);
+      expect(walSize()).toBeGreaterThan(0);
+
+      await Bun.sleep(50);
+      expect(walSize()).toBe(0);
+
+      await adapter.dispose();
+    });
+
+    test("should only checkpoint once the WAL exceeds walSizeLimit", async () => {
+      const adapter = await connect({ enabled: true, checkpoint: { interval: 10, walSizeLimit: 64 * 1024, mode: "TRUNCATE" } });
+      await write(adapter);
+
+      await Bun.sleep(50);
+      expect(walSize()).toBeGreaterThan(0);
+
+      await adapter.executeRaw({
+        sql: "INSERT INTO item (name) SELECT randomblob(1024) FROM (WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 100) SELECT x FROM n)",
+        args: [],
+        argTypes: [],
+      });
+      expect(walSize()).toBeGreaterThan(64 * 1024);
+
+      await Bun.sleep(50);
+      expect(walSize()).toBe(0);
+
+      await adapter.dispose();
+    });
+
+    test("should stop background checkpoints on dispose", async () => {
+      const adapter = await connect({ enabled: true, checkpoint: { interval: 10 } });
+      const checkpoint = spyOn(adapter, "checkpoint");
+
+      await Bun.sleep(50);
+      const calls = checkpoint.mock.calls.length;
+      expect(calls).toBeGreaterThan(0);
+
+      await adapter.dispose();
+      await Bun.sleep(50);
+      expect(checkpoint.mock.calls.length).toBe(calls);
+    });
+
+    test("should reject an invalid checkpoint policy", async () => {
+      for (const checkpoint of [{}, { interval: 0 }, { walSizeLimit: -1 }]) {
+        const factory = new PrismaBunSQLiteAdapterFactory({ url: tempDbPath, walMode: { enabled: true, checkpoint } });
+
+        await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+      }
+    });
+  });
+
+  describe("transaction modes with multiple connections", () => {
+    const setup = async (transactionMode?: "DEFERRED" | "IMMEDIATE") => {
+      const factory = new PrismaBunSQLiteAdapterFactory({
+        url: tempDbPath,
+        walMode: true,
+        transactionMode,
+      });
+      const first = await factory.connect();
+      const second = await factory.connect();
+      await first.executeScript("CREATE TABLE counter (value INTEGER NOT NULL); INSERT INTO counter VALUES (0);");
+      return { first, second };
+    };
+
+    const read = { sql: "SELECT value FROM counter", args: [], argTypes: [] };
+    const increment = { sql: "UPDATE counter SET value = value + 1", args: [], argTypes: [] };
+
+    test("should fail a DEFERRED writer upgrade mid-transaction", async () => {
+      const { first, second } = await setup();
+
+      const tx1 = await first.startTransaction();
+      await tx1.queryRaw(read);
+
+      const tx2 = await second.startTransaction();
+      await tx2.queryRaw(read);
+      await tx2.executeRaw(increment);
+      await tx2.commit();
+
+      // tx1 read a snapshot that is no longer current, busy_timeout cannot fix that
+      try {
+        await tx1.executeRaw(increment);
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect((error as DriverAdapterError).cause.kind).toBe("TransactionWriteConflict");
+      }
+      await tx1.rollback();
+
+      await first.dispose();
+      await second.dispose();
+    });
+
+    test("should surface contention at BEGIN under IMMEDIATE", async () => {
+      const { first, second } = await setup("IMMEDIATE");
+
+      const tx1 = await first.startTransaction();
+      await tx1.queryRaw(read);
+
+      // The second writer is turned away before doing any work
+      try {
+        await second.startTransaction();
+        expect.unreachable("Should have thrown error");
+      } catch (error) {
+        expect((error as DriverAdapterError).cause.kind).toBe("SocketTimeout");
+      }
+
+      await tx1.executeRaw(increment);
+      await tx1.commit();
+
+      // Once the first writer is done the second one runs without conflicts
+      const tx2 = await second.startTransaction();
+      await tx2.queryRaw(read);
+      await tx2.executeRaw(increment);
+      await tx2.commit();
+
+      const result = await first.queryRaw(read);
+      expect(result.rows[0]).toEqual(["2"]); // safeIntegers returns bigint, mapped to string
+
+      await first.dispose();
+      await second.dispose();
+    });
+  });
+});
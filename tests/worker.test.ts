@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { mkdtempSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PrismaBunSQLiteAdapterFactory } from "../src/adapter";
+
+describe("worker mode", () => {
+  let adapter: any;
+
+  const query = (sql: string, args: string[] = []) => ({
+    sql,
+    args,
+    argTypes: args.map(() => ({ scalarType: "string", arity: "scalar" }) as const),
+  });
+
+  beforeEach(async () => {
+    adapter = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true }).connect();
+    await adapter.executeScript(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE NOT NULL, active BOOLEAN, avatar BLOB);
+      INSERT INTO users (email, active, avatar) VALUES ('a@example.com', 1, x'0102');
+    `);
+  });
+
+  afterEach(async () => {
+    await adapter.dispose();
+  });
+
+  it("should run queries on the worker", async () => {
+    const changes = await adapter.executeRaw(query("INSERT INTO users (email) VALUES (?)", ["b@example.com"]));
+    const result = await adapter.queryRaw(query("SELECT email, active, avatar FROM users ORDER BY id"));
+
+    expect(changes).toBe(1);
+    expect(result.columnNames).toEqual(["email", "active", "avatar"]);
+    expect(result.rows).toEqual([
+      ["a@example.com", "1", [1, 2]],
+      ["b@example.com", null, null],
+    ]);
+  });
+
+  it("should keep driver adapter errors", async () => {
+    try {
+      await adapter.executeRaw(query("INSERT INTO users (email) VALUES ('a@example.com')"));
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect(error).toBeInstanceOf(DriverAdapterError);
+      expect((error as DriverAdapterError).cause.kind).toBe("UniqueConstraintViolation");
+    }
+  });
+
+  it("should commit and roll back transactions", async () => {
+    const committed = await adapter.startTransaction();
+    await committed.executeRaw(query("UPDATE users SET email = 'committed@example.com'"));
+    await committed.commit();
+
+    const rolledBack = await adapter.startTransaction(undefined, { mode: "IMMEDIATE" });
+    expect(rolledBack.options.mode).toBe("IMMEDIATE");
+    await rolledBack.executeRaw(query("UPDATE users SET email = 'rolled-back@example.com'"));
+    await rolledBack.rollback();
+
+    const result = await adapter.queryRaw(query("SELECT email FROM users"));
+    expect(result.rows).toEqual([["committed@example.com"]]);
+  });
+
+  it("should support nested transactions", async () => {
+    const outer = await adapter.startTransaction();
+    await outer.executeRaw(query("INSERT INTO users (email) VALUES ('outer@example.com')"));
+    const inner = await outer.startNestedTransaction();
+    await inner.executeRaw(query("INSERT INTO users (email) VALUES ('inner@example.com')"));
+    await inner.rollback();
+    await outer.commit();
+
+    const result = await adapter.queryRaw(query("SELECT email FROM users ORDER BY id"));
+    expect(result.rows).toEqual([["a@example.com"], ["outer@example.com"]]);
+  });
+
+  it("should reject queries on a closed transaction", async () => {
+    const tx = await adapter.startTransaction();
+    await tx.commit();
+    await tx.commit();
+
+    try {
+      await tx.queryRaw(query("SELECT 1"));
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause.kind).toBe("TransactionAlreadyClosed");
+    }
+  });
+
+  it("should serialize standalone queries against open transactions", async () => {
+    const tx = await adapter.startTransaction();
+    await tx.executeRaw(query("UPDATE users SET email = 'tx@example.com'"));
+
+    let standaloneDone = false;
+    const standalone = adapter.executeRaw(query("INSERT INTO users (email) VALUES ('standalone@example.com')"))
+      .then(() => (standaloneDone = true));
+    await Bun.sleep(20);
+    expect(standaloneDone).toBe(false);
+
+    await tx.rollback();
+    await standalone;
+
+    const result = await adapter.queryRaw(query("SELECT email FROM users ORDER BY id"));
+    expect(result.rows).toEqual([["a@example.com"], ["standalone@example.com"]]);
+  });
+
+  it("should not block the event loop during slow queries", async () => {
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 5);
+
+    try {
+      await adapter.queryRaw(query(`
+        WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 2000000)
+        SELECT count(*) AS total FROM n
+      `));
+    } finally {
+      clearInterval(timer);
+    }
+
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it("should expose adapter statistics", async () => {
+    await adapter.queryRaw(query("SELECT 1"));
+
+    const stats = await adapter.getStatementCacheStats();
+    expect(stats.capacity).toBe(100);
+    expect(stats.misses).toBeGreaterThan(0);
+    expect(await adapter.getBusyRetryStats()).toEqual({ retries: 0, recovered: 0, exhausted: 0 });
+  });
+
+  it("should run checkpoints on the worker", async () => {
+    // In-memory databases have no WAL to checkpoint
+    expect(await adapter.checkpoint("TRUNCATE")).toEqual({ busy: false, log: -1, checkpointed: -1 });
+    try {
+      await adapter.checkpoint("NOW");
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause.kind).toBe("GenericJs");
+    }
+  });
+
+  it("should let an open transaction finish on dispose", async () => {
+    const worker: any = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true }).connect();
+    const tx = await worker.startTransaction();
+    await tx.queryRaw(query("SELECT 1"));
+
+    const disposing = worker.dispose();
+    await Bun.sleep(20);
+    await tx.commit();
+    await disposing;
+  });
+
+  it("should reject calls after dispose", async () => {
+    const disposed = await new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true }).connect();
+    await disposed.dispose();
+
+    await expect(disposed.queryRaw(query("SELECT 1"))).rejects.toThrow(DriverAdapterError);
+  });
+});
+
+describe("worker mode factory", () => {
+  it("should surface errors opening the database", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true, statementCacheSize: -1 });
+
+    await expect(factory.connect()).rejects.toThrow(DriverAdapterError);
+  });
+
+  it("should schedule checkpoints on the worker", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "worker-"));
+    const path = join(dir, "app.db");
+    const adapter = await new PrismaBunSQLiteAdapterFactory({ url: path, walMode: true, worker: true }).connect();
+    await adapter.executeScript("CREATE TABLE item (id INTEGER PRIMARY KEY); INSERT INTO item VALUES (1);");
+    expect(statSync(path + "-wal").size).toBeGreaterThan(0);
+
+    await adapter.scheduleCheckpoints({ interval: 10, mode: "TRUNCATE" });
+    await Bun.sleep(50);
+    expect(statSync(path + "-wal").size).toBe(0);
+
+    try {
+      await adapter.scheduleCheckpoints({ interval: 0 });
+      expect.unreachable("Should have thrown error");
+    } catch (error) {
+      expect((error as DriverAdapterError).cause.kind).toBe("GenericJs");
+    }
+
+    await adapter.dispose();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should open the shadow database on a worker", async () => {
+    const factory = new PrismaBunSQLiteAdapterFactory({ url: ":memory:", worker: true });
+    const shadow = await factory.connectToShadowDb();
+
+    await shadow.executeScript("CREATE TABLE t (id INTEGER)");
+    expect((await shadow.queryRaw({ sql: "SELECT count(*) AS n FROM t", args: [], argTypes: [] })).rows).toEqual([["0"]]);
+    await shadow.dispose();
+  });
+});